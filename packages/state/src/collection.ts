@@ -0,0 +1,140 @@
+type Collection = unknown[] | Map<unknown, unknown> | Set<unknown>;
+
+/** Original collection for a given reactive proxy. */
+const RAW = new WeakMap<object, Collection>();
+
+/** Array methods which modify array in place. */
+const MUTATE = new Set([
+  'copyWithin',
+  'fill',
+  'pop',
+  'push',
+  'reverse',
+  'shift',
+  'sort',
+  'splice',
+  'unshift'
+]);
+
+/**
+ * Wrap an Array, Map or Set such that in-place changes will call `onUpdate`.
+ * Any other value is returned as-is.
+ *
+ * @param value - Collection to wrap. If already wrapped, the original is wrapped again.
+ * @param onUpdate - Called whenever contents of collection have changed.
+ */
+function track<T>(value: T, onUpdate: () => void): T {
+  const target = RAW.get(value as object) || value;
+
+  if (Array.isArray(target)) return wrap(target, array(onUpdate));
+
+  if (target instanceof Map || target instanceof Set)
+    return wrap(target, keyed(onUpdate));
+
+  return value;
+}
+
+function wrap<T>(target: Collection, handler: ProxyHandler<any>): T {
+  const proxy = new Proxy(target, handler);
+
+  RAW.set(proxy, target);
+
+  return proxy as T;
+}
+
+function array(onUpdate: () => void): ProxyHandler<unknown[]> {
+  return {
+    get(target, key, proxy) {
+      const value = Reflect.get(target, key);
+
+      if (typeof key != 'string' || !MUTATE.has(key)) return value;
+
+      return (...args: unknown[]) => {
+        const output = value.apply(target, args);
+
+        onUpdate();
+
+        return output === target ? proxy : output;
+      };
+    },
+    set(target, key, value) {
+      if (!(key in target) || Reflect.get(target, key) !== value) {
+        Reflect.set(target, key, value);
+        onUpdate();
+      }
+
+      return true;
+    },
+    deleteProperty(target, key) {
+      if (key in target) {
+        Reflect.deleteProperty(target, key);
+        onUpdate();
+      }
+
+      return true;
+    }
+  };
+}
+
+function keyed(onUpdate: () => void): ProxyHandler<Map<any, any> | Set<any>> {
+  return {
+    get(target, key, proxy) {
+      const value = Reflect.get(target, key, target);
+
+      if (typeof value != 'function') return value;
+
+      switch (key) {
+        case 'add':
+        case 'set':
+          return (key: unknown, value?: unknown) => {
+            const changed =
+              target instanceof Map
+                ? !target.has(key) || target.get(key) !== value
+                : !target.has(key);
+
+            if (changed) {
+              if (target instanceof Map) target.set(key, value);
+              else target.add(key);
+
+              onUpdate();
+            }
+
+            return proxy;
+          };
+
+        case 'delete':
+          return (key: unknown) => {
+            const deleted = target.delete(key);
+
+            if (deleted) onUpdate();
+
+            return deleted;
+          };
+
+        case 'clear':
+          return () => {
+            if (target.size) {
+              target.clear();
+              onUpdate();
+            }
+          };
+      }
+
+      return value.bind(target);
+    }
+  };
+}
+
+/**
+ * Copy contents of a reactive collection into a plain one.
+ * Returns `undefined` if value is not a reactive collection.
+ */
+function copy(value: unknown) {
+  const target = RAW.get(value as object);
+
+  if (target instanceof Map) return new Map(target);
+  if (target instanceof Set) return new Set(target);
+  if (target) return [...target];
+}
+
+export { track, copy, Collection };
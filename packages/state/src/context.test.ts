@@ -230,6 +230,35 @@ describe('include', () => {
     expect(newBaz).not.toBe(baz);
   });
 
+  it('will get entries by key', () => {
+    const foo = Foo.new();
+    const context = new Context({ foo, Bar });
+    const bar = context.get(Bar);
+
+    expect(context.entries()).toEqual([
+      ['foo', foo],
+      ['Bar', bar]
+    ]);
+
+    context.set({ foo, Bar });
+
+    expect(context.entries()).toEqual([
+      ['foo', foo],
+      ['Bar', bar]
+    ]);
+
+    context.pop();
+
+    expect(context.entries()).toEqual([]);
+  });
+
+  it('will get entries by index if not keyed', () => {
+    const context = new Context(Foo);
+
+    expect(context.entries()).toEqual([['0', context.get(Foo)]]);
+    expect(context.push().entries()).toEqual([]);
+  });
+
   it('will register children implicitly', () => {
     const foobar = FooBar.new();
     const context = new Context({ foobar });
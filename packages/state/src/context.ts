@@ -70,6 +70,7 @@ class Context {
   public id = uid();
 
   protected inputs = {} as Record<string | number, State | State.Extends>;
+  protected instances = {} as Record<string | number, State>;
   protected cleanup = [] as (() => void)[];
 
   constructor(inputs?: Context.Accept) {
@@ -131,6 +132,7 @@ class Context {
     forEach?: Context.Expect<T>
   ) {
     const init = new Map<State, boolean>();
+    const instances = {} as Record<string | number, State>;
 
     if (typeof inputs == 'function' || inputs instanceof State)
       inputs = { [0]: inputs };
@@ -146,7 +148,7 @@ class Context {
       const exists = this.inputs[K];
 
       if (!exists) {
-        init.set(this.add(V), true);
+        init.set((instances[K] = this.add(V)), true);
       }
       // Context must force-reset because inputs are no longer safe,
       // however probably should do that on a per-state basis.
@@ -155,7 +157,7 @@ class Context {
         this.set(inputs);
         this.id = uid();
         return;
-      }
+      } else instances[K] = this.instances[K];
     }
 
     for (const [state, explicit] of init) {
@@ -171,6 +173,15 @@ class Context {
     }
 
     this.inputs = inputs;
+    this.instances = instances;
+  }
+
+  /**
+   * Get States registered to this context, by key of their input.
+   * Where State or class was given alone, key is an index.
+   */
+  public entries() {
+    return Object.entries(this.instances);
   }
 
   /**
@@ -240,6 +251,7 @@ class Context {
     this.cleanup = [() => next.pop(), ...this.cleanup];
 
     next.inputs = {};
+    next.instances = {};
     next.cleanup = [];
 
     if (inputs) next.set(inputs);
@@ -257,6 +269,7 @@ class Context {
 
     this.cleanup.forEach((cb) => cb());
     this.inputs = {};
+    this.instances = {};
     this.cleanup = [];
   }
 }
@@ -0,0 +1,241 @@
+import { mockPromise, describe, expect, it, vi } from '../vitest';
+import { Context } from './context';
+import { computed, context, required } from './decorators';
+import { get } from './instruction/get';
+import { set } from './instruction/set';
+import { State } from './state';
+
+describe('computed', () => {
+  it('will compute value from getter', async () => {
+    class Test extends State {
+      value = 1;
+
+      @computed
+      get double() {
+        return this.value * 2;
+      }
+    }
+
+    const test = Test.new();
+
+    expect(test.double).toBe(2);
+
+    test.value = 2;
+    await expect(test).toHaveUpdated('value', 'double');
+
+    expect(test.double).toBe(4);
+  });
+
+  it('will run getter only when inputs update', async () => {
+    const getter = vi.fn();
+
+    class Test extends State {
+      value = 1;
+      other = 1;
+
+      @computed
+      get double() {
+        getter();
+        return this.value * 2;
+      }
+    }
+
+    const test = Test.new();
+
+    expect(test.double).toBe(2);
+    expect(test.double).toBe(2);
+    expect(getter).toBeCalledTimes(1);
+
+    test.other = 2;
+    await expect(test).toHaveUpdated('other');
+
+    expect(getter).toBeCalledTimes(1);
+  });
+
+  it('will be reactive in effect', async () => {
+    const effect = vi.fn();
+
+    class Test extends State {
+      value = 1;
+
+      @computed
+      get double() {
+        return this.value * 2;
+      }
+    }
+
+    const test = Test.new();
+
+    test.get(($) => {
+      effect($.double);
+    });
+
+    test.value = 2;
+    await expect(test).toHaveUpdated();
+
+    expect(effect).toBeCalledTimes(2);
+    expect(effect).toHaveBeenLastCalledWith(4);
+  });
+});
+
+describe('context', () => {
+  class Parent extends State {
+    value = 'foo';
+  }
+
+  it('will fetch from context', () => {
+    class Test extends State {
+      @context(Parent)
+      parent!: Parent;
+    }
+
+    const root = new Context({ Parent, Test });
+
+    expect(root.get(Test, true).parent).toBe(root.get(Parent));
+  });
+
+  it('will suspend if not found', async () => {
+    class Test extends State {
+      @context(Parent)
+      parent!: Parent;
+    }
+
+    const test = Test.new();
+    const didUpdate = mockPromise<Parent>();
+
+    test.get(($) => {
+      didUpdate.resolve($.parent);
+    });
+
+    new Context({ Parent }).push({ test });
+
+    await expect(didUpdate).resolves.toBeInstanceOf(Parent);
+  });
+
+  it('will be undefined if optional', () => {
+    class Test extends State {
+      @context(Parent, false)
+      parent?: Parent;
+    }
+
+    expect(Test.new().parent).toBeUndefined();
+  });
+});
+
+describe('required', () => {
+  it('will suspend until defined', async () => {
+    class Test extends State {
+      @required
+      value!: string;
+    }
+
+    const test = Test.new();
+    const didUpdate = mockPromise<string>();
+
+    test.get(($) => {
+      didUpdate.resolve($.value);
+    });
+
+    test.value = 'foo';
+
+    await expect(didUpdate).resolves.toBe('foo');
+  });
+
+  it('will accept value from constructor', () => {
+    class Test extends State {
+      @required
+      value!: string;
+    }
+
+    expect(Test.new({ value: 'foo' }).value).toBe('foo');
+  });
+
+  it('will use initial value', () => {
+    class Test extends State {
+      @required
+      value = 'foo';
+    }
+
+    expect(Test.new().value).toBe('foo');
+  });
+});
+
+describe('property', () => {
+  it('will throw on private property', () => {
+    expect(() => {
+      class Test extends State {
+        @required
+        // @ts-ignore
+        #value!: string;
+      }
+
+      return Test;
+    }).toThrow(
+      'Decorator cannot be used on #value, as it is not a public instance property.'
+    );
+  });
+
+  it('will throw on static property', () => {
+    expect(() => {
+      class Test extends State {
+        // @ts-expect-error
+        @computed
+        static get value() {
+          return 1;
+        }
+      }
+
+      return Test;
+    }).toThrow(
+      'Decorator cannot be used on value, as it is not a public instance property.'
+    );
+  });
+
+  it('will throw on symbol property', () => {
+    const key = Symbol('value');
+
+    expect(() => {
+      class Test extends State {
+        @required
+        [key]!: string;
+      }
+
+      return Test;
+    }).toThrow(
+      'Decorator cannot be used on Symbol(value), as it is not a public instance property.'
+    );
+  });
+});
+
+it('will coexist with instructions', async () => {
+  class Parent extends State {
+    value = 2;
+  }
+
+  class Test extends State {
+    value = set(1);
+    parent = get(Parent);
+
+    @context(Parent)
+    other!: Parent;
+
+    @computed
+    get product() {
+      return this.value * this.parent.value * this.other.value;
+    }
+
+    sum = set(this, ($) => $.value + $.product);
+  }
+
+  const root = new Context({ Parent, Test });
+  const test = root.get(Test, true);
+
+  expect(test.other).toBe(test.parent);
+  expect(test.product).toBe(4);
+  expect(test.sum).toBe(5);
+
+  test.value = 2;
+  await expect(test).toHaveUpdated('value', 'product', 'sum');
+
+  expect(test.sum).toBe(10);
+});
@@ -0,0 +1,79 @@
+import { get } from './instruction/get';
+import { set } from './instruction/set';
+import { State } from './state';
+
+/**
+ * Name of property being decorated, which must be public and non-static
+ * so it is found by instructions on init.
+ */
+function property(context: ClassMemberDecoratorContext) {
+  const { name } = context;
+
+  if (context.private || context.static || typeof name != 'string')
+    throw new Error(
+      `Decorator cannot be used on ${String(name)}, as it is not a public instance property.`
+    );
+
+  return name;
+}
+
+/**
+ * Compute property from getter. Value is cached, and will refresh only
+ * when properties accessed by the getter update.
+ *
+ * Same as `value = set(true, getter)` as a field.
+ */
+function computed<T extends State, R>(
+  getter: (this: T) => R,
+  context: ClassGetterDecoratorContext<T, R>
+) {
+  const key = property(context);
+
+  context.addInitializer(function () {
+    // Own property shadows the getter, as any instruction would before init.
+    Object.defineProperty(this, key, {
+      value: set(true, getter),
+      configurable: true,
+      enumerable: true,
+      writable: true
+    });
+  });
+}
+
+/**
+ * Fetch upstream State of given type from context.
+ *
+ * Same as `value = get(Type)` as a field.
+ *
+ * @param Type - Type of State to fetch.
+ * @param required - If false, property may be undefined. Otherwise will throw suspense.
+ */
+function context<T extends State>(Type: State.Extends<T>, required?: boolean) {
+  return <S extends State, V extends T | undefined>(
+    _value: undefined,
+    context: ClassFieldDecoratorContext<S, V>
+  ) => {
+    property(context);
+
+    return () => (required === false ? get(Type, false) : get(Type)) as V;
+  };
+}
+
+/**
+ * Property is required, and cannot be accessed until it is defined.
+ * If accessed while undefined, suspense will be thrown.
+ *
+ * Same as `value = set()` as a field, unless an initial value is given.
+ */
+function required<T extends State, V>(
+  _value: undefined,
+  context: ClassFieldDecoratorContext<T, V>
+) {
+  property(context);
+
+  return (value: V) => (value === undefined ? set<V>() : value);
+}
+
+export { computed, context, required };
+export { ref } from './instruction/ref';
+export { watch } from './observable';
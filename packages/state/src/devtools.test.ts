@@ -0,0 +1,243 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from '../vitest';
+import { Context } from './context';
+import { devtools } from './devtools';
+import { set } from './instruction/set';
+import { State } from './state';
+
+function mockExtension() {
+  let receive: (message: devtools.Message) => void;
+
+  const connection = {
+    init: vi.fn(),
+    send: vi.fn(),
+    unsubscribe: vi.fn(),
+    subscribe: vi.fn((listener: typeof receive) => {
+      receive = listener;
+      return connection.unsubscribe;
+    })
+  };
+
+  const extension = {
+    connect: vi.fn(() => connection),
+    jump(state: unknown, type = 'JUMP_TO_STATE') {
+      receive({
+        type: 'DISPATCH',
+        payload: { type },
+        state: JSON.stringify(state)
+      });
+    },
+    receive(message: devtools.Message) {
+      receive(message);
+    },
+    connection
+  };
+
+  return extension;
+}
+
+let extension: ReturnType<typeof mockExtension>;
+
+beforeEach(() => {
+  extension = mockExtension();
+  vi.stubGlobal('__REDUX_DEVTOOLS_EXTENSION__', extension);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+class Test extends State {
+  foo = 1;
+  bar = 2;
+}
+
+it('will do nothing without extension', () => {
+  vi.unstubAllGlobals();
+
+  const disconnect = devtools(Test.new());
+
+  expect(extension.connect).not.toBeCalled();
+  expect(disconnect).not.toThrow();
+});
+
+describe('state', () => {
+  it('will connect with initial values', () => {
+    const test = Test.new('ID');
+
+    devtools(test);
+
+    expect(extension.connect).toBeCalledWith({ name: 'ID' });
+    expect(extension.connection.init).toBeCalledWith({ foo: 1, bar: 2 });
+  });
+
+  it('will use custom name', () => {
+    devtools(Test.new(), { name: 'Custom' });
+
+    expect(extension.connect).toBeCalledWith({ name: 'Custom' });
+  });
+
+  it('will send action for each update', async () => {
+    const test = Test.new();
+
+    devtools(test);
+
+    test.foo = 2;
+    test.bar = 3;
+    await expect(test).toHaveUpdated();
+
+    expect(extension.connection.send).toBeCalledTimes(1);
+    expect(extension.connection.send).toBeCalledWith(
+      { type: 'foo, bar' },
+      { foo: 2, bar: 3 }
+    );
+  });
+
+  it('will restore values on jump', async () => {
+    const test = Test.new();
+
+    devtools(test);
+
+    test.foo = 2;
+    await expect(test).toHaveUpdated();
+
+    extension.jump({ foo: 1, bar: 2 }, 'JUMP_TO_ACTION');
+
+    expect(test.foo).toBe(1);
+    await expect(test).toHaveUpdated('foo');
+
+    extension.jump({ foo: 2, bar: 2 });
+
+    expect(test.foo).toBe(2);
+    await expect(test).toHaveUpdated('foo');
+
+    expect(extension.connection.send).toBeCalledTimes(1);
+  });
+
+  it('will restore child state but not computed', async () => {
+    class Child extends State {
+      value = 1;
+    }
+
+    class Test extends State {
+      child = new Child();
+      double = set(this, ($) => $.child.value * 2);
+    }
+
+    const test = Test.new();
+
+    expect(test.double).toBe(2);
+
+    devtools(test);
+    extension.jump({ child: { value: 2 }, double: 2 });
+
+    expect(test.child.value).toBe(2);
+    expect(test.double).toBe(4);
+  });
+
+  it('will ignore other messages', () => {
+    const test = Test.new();
+
+    devtools(test);
+
+    extension.receive({ type: 'START' });
+    extension.receive({ type: 'DISPATCH', payload: { type: 'COMMIT' } });
+    extension.receive({
+      type: 'DISPATCH',
+      payload: { type: 'TOGGLE_ACTION' },
+      state: '{}'
+    });
+
+    expect(test.get()).toEqual({ foo: 1, bar: 2 });
+  });
+
+  it('will disconnect', async () => {
+    const test = Test.new();
+    const disconnect = devtools(test);
+
+    disconnect();
+
+    expect(extension.connection.unsubscribe).toBeCalled();
+
+    test.foo = 2;
+    await expect(test).toHaveUpdated();
+
+    expect(extension.connection.send).not.toBeCalled();
+  });
+
+  it('will disconnect when destroyed', () => {
+    const test = Test.new();
+
+    devtools(test);
+    test.set(null);
+
+    expect(extension.connection.unsubscribe).toBeCalled();
+  });
+});
+
+describe('context', () => {
+  class Other extends State {
+    baz = 3;
+  }
+
+  it('will report all states', async () => {
+    const context = new Context({ Test, other: Other.new() });
+    const test = context.get(Test, true);
+    const other = context.get(Other, true);
+
+    devtools(context);
+
+    expect(extension.connect).toBeCalledWith({ name: String(context) });
+    expect(extension.connection.init).toBeCalledWith({
+      Test: { foo: 1, bar: 2 },
+      other: { baz: 3 }
+    });
+
+    test.foo = 2;
+    await expect(test).toHaveUpdated();
+
+    expect(extension.connection.send).toBeCalledWith(
+      { type: 'Test.foo' },
+      { Test: { foo: 2, bar: 2 }, other: { baz: 3 } }
+    );
+
+    other.baz = 4;
+    await expect(other).toHaveUpdated();
+
+    expect(extension.connection.send).toHaveBeenLastCalledWith(
+      { type: 'other.baz' },
+      { Test: { foo: 2, bar: 2 }, other: { baz: 4 } }
+    );
+  });
+
+  it('will name states by class', () => {
+    const context = new Context(Test);
+
+    devtools(context);
+
+    expect(extension.connection.init).toBeCalledWith({
+      Test: { foo: 1, bar: 2 }
+    });
+  });
+
+  it('will not overwrite states of same name', () => {
+    const a = Test.new('A');
+    const b = Test.new('B');
+
+    devtools(new Context({ 0: a, 1: b }));
+
+    expect(extension.connection.init).toBeCalledWith({
+      Test: { foo: 1, bar: 2 },
+      B: { foo: 1, bar: 2 }
+    });
+  });
+
+  it('will restore all states on jump', () => {
+    const context = new Context({ Test, other: Other });
+
+    devtools(context);
+    extension.jump({ Test: { foo: 3, bar: 4 }, other: { baz: 5 } });
+
+    expect(context.get(Test, true).foo).toBe(3);
+    expect(context.get(Other, true).baz).toBe(5);
+  });
+});
@@ -0,0 +1,143 @@
+import { Context } from './context';
+import { COMPUTED, listener } from './observable';
+import { State } from './state';
+
+declare namespace devtools {
+  type Options = {
+    /** Name of instance shown in devtools. Defaults to name of state or context. */
+    name?: string;
+  };
+
+  /** Message sent from devtools to a connected instance. */
+  type Message = {
+    type: string;
+    payload?: { type: string };
+    state?: string;
+  };
+
+  /** Connection to Redux DevTools, as returned by `connect` of the extension. */
+  interface Connection {
+    init(state: unknown): void;
+    send(action: { type: string }, state: unknown): void;
+    subscribe(listener: (message: Message) => void): () => void;
+  }
+
+  /** Redux DevTools extension, as found on `window`. */
+  interface Extension {
+    connect(options?: { name?: string }): Connection;
+  }
+}
+
+const EXTENSION = '__REDUX_DEVTOOLS_EXTENSION__';
+
+/**
+ * Report updates of a state, or all states in a context, to Redux DevTools if installed.
+ *
+ * Each update is shown as an action named after properties changed, with values
+ * from `get()` as the new state. Jumping to a previous action will restore its values.
+ *
+ * @param target - State or context to report.
+ * @param options - Name of instance in devtools.
+ * @returns Function to disconnect from devtools.
+ */
+function devtools(
+  target: State | Context,
+  options: devtools.Options = {}
+): () => void {
+  const extension: devtools.Extension | undefined = (globalThis as any)[
+    EXTENSION
+  ];
+
+  if (!extension) return () => {};
+
+  const states = new Map<string, State>();
+  const release = new Set<() => void>();
+
+  let replay = false;
+
+  if (target instanceof State) states.set('', target.is);
+  else
+    for (const [key, state] of target.entries()) {
+      let name = isNaN(Number(key)) ? key : state.constructor.name;
+
+      // Name may be taken, such as by another instance of same class.
+      if (states.has(name)) name = String(state);
+
+      states.set(name, state);
+    }
+
+  const connection = extension.connect({
+    name: options.name || String(target)
+  });
+
+  function snapshot() {
+    if (target instanceof State) return target.get();
+
+    const values: Record<string, unknown> = {};
+
+    for (const [name, state] of states) values[name] = state.get();
+
+    return values;
+  }
+
+  function restore(json: string) {
+    const values = JSON.parse(json);
+
+    replay = true;
+
+    for (const [name, state] of states) {
+      const data = { ...(name ? values[name] : values) };
+      const computed = COMPUTED.get(state);
+
+      // Computed values are left to update on their own.
+      if (computed) for (const key of computed.keys()) delete data[key];
+
+      state.set(data);
+    }
+
+    replay = false;
+  }
+
+  for (const [name, state] of states) {
+    const changed = new Set<string>();
+
+    release.add(
+      listener(state, (key) => {
+        if (key === null) {
+          disconnect();
+        } else if (key === false) {
+          if (!changed.size) return;
+
+          const keys = Array.from(changed, (key) =>
+            name ? `${name}.${key}` : key
+          );
+
+          changed.clear();
+          connection.send({ type: keys.join(', ') }, snapshot());
+        } else if (typeof key == 'string' && !replay) changed.add(key);
+      })
+    );
+  }
+
+  const unsubscribe = connection.subscribe((message) => {
+    if (message.type != 'DISPATCH' || !message.payload || !message.state)
+      return;
+
+    const { type } = message.payload;
+
+    if (type == 'JUMP_TO_STATE' || type == 'JUMP_TO_ACTION')
+      restore(message.state);
+  });
+
+  function disconnect() {
+    release.forEach((fn) => fn());
+    release.clear();
+    unsubscribe();
+  }
+
+  connection.init(snapshot());
+
+  return disconnect;
+}
+
+export { devtools };
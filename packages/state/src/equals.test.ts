@@ -0,0 +1,39 @@
+import { describe, it, expect } from '../vitest';
+import { deep, shallow } from './equals';
+
+describe('shallow', () => {
+  it('will compare plain objects', () => {
+    const inner = {};
+
+    expect(shallow({ a: 1, b: inner }, { a: 1, b: inner })).toBe(true);
+    expect(shallow({ a: 1, b: {} }, { a: 1, b: {} })).toBe(false);
+    expect(shallow({ a: 1 }, { a: 1, b: 2 })).toBe(false);
+    expect(shallow({ a: 1 }, { b: 1 })).toBe(false);
+  });
+
+  it('will compare arrays', () => {
+    expect(shallow([1, 2], [1, 2])).toBe(true);
+    expect(shallow([1, 2], [2, 1])).toBe(false);
+    expect(shallow([1], { 0: 1 })).toBe(false);
+  });
+
+  it('will not compare other objects', () => {
+    expect(shallow(new Date(0), new Date(0))).toBe(false);
+    expect(shallow(null, {})).toBe(false);
+    expect(shallow(1, 1)).toBe(true);
+  });
+
+  it('will compare objects without prototype', () => {
+    const a = Object.assign(Object.create(null), { a: 1 });
+    const b = Object.assign(Object.create(null), { a: 1 });
+
+    expect(shallow(a, b)).toBe(true);
+  });
+});
+
+describe('deep', () => {
+  it('will compare nested values', () => {
+    expect(deep({ a: [{ b: 1 }] }, { a: [{ b: 1 }] })).toBe(true);
+    expect(deep({ a: [{ b: 1 }] }, { a: [{ b: 2 }] })).toBe(false);
+  });
+});
@@ -0,0 +1,38 @@
+/** Check if value is an array or object literal, which may be compared by contents. */
+function isPlain(value: unknown): value is Record<string, unknown> {
+  if (!value || typeof value != 'object') return false;
+
+  const proto = Object.getPrototypeOf(value);
+
+  return Array.isArray(value) || proto === Object.prototype || proto === null;
+}
+
+function compare(
+  a: unknown,
+  b: unknown,
+  values: (a: unknown, b: unknown) => boolean
+) {
+  if (a === b) return true;
+
+  if (!isPlain(a) || !isPlain(b) || Array.isArray(a) != Array.isArray(b))
+    return false;
+
+  const keys = Object.keys(a);
+
+  return (
+    keys.length == Object.keys(b).length &&
+    keys.every((key) => key in b && values(a[key], b[key]))
+  );
+}
+
+/** Check if arrays or plain objects have the same keys and identical values. */
+function shallow(a: unknown, b: unknown): boolean {
+  return compare(a, b, (a, b) => a === b);
+}
+
+/** Check if arrays or plain objects are equal by contents, recursively. */
+function deep(a: unknown, b: unknown): boolean {
+  return compare(a, b, deep);
+}
+
+export { shallow, deep };
@@ -2,7 +2,30 @@ export { use, type Instruction } from './instruction/use';
 export { get } from './instruction/get';
 export { set } from './instruction/set';
 export { ref } from './instruction/ref';
+export { history } from './instruction/history';
+export { collection } from './instruction/collection';
+export { validation } from './instruction/validation';
+export { from } from './instruction/from';
+export { persist } from './instruction/persist';
+export { shared } from './instruction/shared';
+export { computed, context, required } from './decorators';
 
-export { State, State as default, METHOD } from './state';
-export { watch, listener, event, Observable } from './observable';
+export { State, State as default, METHOD, updates, type Status } from './state';
+export {
+  watch,
+  listener,
+  event,
+  flush,
+  scheduler,
+  dependencies,
+  trace,
+  Observable
+} from './observable';
 export { Context } from './context';
+export { patch, applyPatch } from './patch';
+export { readonly } from './readonly';
+export { observable } from './interop';
+export { toStore } from './store';
+export { expose, connect } from './remote';
+export { devtools } from './devtools';
+export { logger } from './logger';
@@ -0,0 +1,251 @@
+import { vi, describe, it, expect } from '../../vitest';
+import { State } from '../state';
+import { collection } from './collection';
+
+describe('array', () => {
+  class Test extends State {
+    items = collection([1, 2, 3]);
+  }
+
+  it('will update on push', async () => {
+    const test = Test.new();
+
+    test.items.push(4);
+
+    await expect(test).toHaveUpdated('items');
+    expect(test.items).toEqual([1, 2, 3, 4]);
+  });
+
+  it('will update once for many changes', async () => {
+    const test = Test.new();
+    const didUpdate = vi.fn();
+
+    test.get((state) => {
+      didUpdate(state.items.length);
+    });
+
+    test.items.push(4);
+    test.items.splice(0, 1);
+    test.items.unshift(0);
+
+    await expect(test).toHaveUpdated('items');
+
+    expect(didUpdate).toBeCalledTimes(2);
+    expect(didUpdate).toHaveBeenLastCalledWith(4);
+    expect(test.items).toEqual([0, 2, 3, 4]);
+  });
+
+  it('will update on index assignment', async () => {
+    const test = Test.new();
+
+    test.items[0] = 10;
+
+    await expect(test).toHaveUpdated('items');
+    expect(test.items).toEqual([10, 2, 3]);
+  });
+
+  it('will update on delete', async () => {
+    const test = Test.new();
+
+    delete test.items[0];
+
+    await expect(test).toHaveUpdated('items');
+    expect(0 in test.items).toBe(false);
+  });
+
+  it('will not update if unchanged', async () => {
+    const test = Test.new();
+
+    test.items[0] = 1;
+    delete test.items[5];
+
+    await expect(test).not.toHaveUpdated();
+  });
+
+  it('will return proxy from in-place methods', () => {
+    const test = Test.new();
+
+    expect(test.items.reverse()).toBe(test.items);
+  });
+
+  it('will not update on read', async () => {
+    const test = Test.new();
+
+    expect(test.items.map((x) => x * 2)).toEqual([2, 4, 6]);
+    expect(test.items.includes(2)).toBe(true);
+    expect([...test.items]).toEqual([1, 2, 3]);
+
+    await expect(test).not.toHaveUpdated();
+  });
+
+  it('will track new value on assignment', async () => {
+    const test = Test.new();
+
+    test.items = [4, 5];
+
+    await expect(test).toHaveUpdated('items');
+
+    test.items.push(6);
+
+    await expect(test).toHaveUpdated('items');
+    expect(test.items).toEqual([4, 5, 6]);
+  });
+
+  it('will ignore assignment of same value', async () => {
+    const test = Test.new();
+
+    test.items = test.items;
+
+    await expect(test).not.toHaveUpdated();
+  });
+
+  it('will export a plain copy', () => {
+    const test = Test.new();
+    const values = test.get();
+
+    expect(values.items).toEqual([1, 2, 3]);
+
+    test.items.push(4);
+
+    expect(values.items).toEqual([1, 2, 3]);
+    expect(test.get().items).toEqual([1, 2, 3, 4]);
+  });
+
+  it('will track when restored from snapshot', async () => {
+    const test = Test.new();
+
+    test.set({ items: [7, 8] });
+
+    await expect(test).toHaveUpdated('items');
+
+    test.items.pop();
+
+    await expect(test).toHaveUpdated('items');
+    expect(test.items).toEqual([7]);
+  });
+
+  it('will notify only owner of collection', async () => {
+    const test = Test.new();
+    const other = Test.new();
+
+    other.items = test.items;
+
+    await expect(other).toHaveUpdated('items');
+
+    other.items.push(4);
+
+    await expect(other).toHaveUpdated('items');
+    await expect(test).not.toHaveUpdated();
+    expect(test.items).toEqual([1, 2, 3, 4]);
+  });
+});
+
+describe('map', () => {
+  class Test extends State {
+    items = collection(new Map<string, number>([['foo', 1]]));
+  }
+
+  it('will update on set', async () => {
+    const test = Test.new();
+
+    expect(test.items.set('bar', 2)).toBe(test.items);
+
+    await expect(test).toHaveUpdated('items');
+    expect(test.items.get('bar')).toBe(2);
+    expect(test.items.size).toBe(2);
+  });
+
+  it('will not update if value is same', async () => {
+    const test = Test.new();
+
+    test.items.set('foo', 1);
+
+    await expect(test).not.toHaveUpdated();
+  });
+
+  it('will update on delete', async () => {
+    const test = Test.new();
+
+    expect(test.items.delete('bar')).toBe(false);
+    await expect(test).not.toHaveUpdated();
+
+    expect(test.items.delete('foo')).toBe(true);
+    await expect(test).toHaveUpdated('items');
+  });
+
+  it('will update on clear', async () => {
+    const test = Test.new();
+
+    test.items.clear();
+    await expect(test).toHaveUpdated('items');
+
+    test.items.clear();
+    await expect(test).not.toHaveUpdated();
+  });
+
+  it('will refresh effect', async () => {
+    const test = Test.new();
+    const didUpdate = vi.fn();
+
+    test.get((state) => {
+      didUpdate(state.items.get('foo'));
+    });
+
+    test.items.set('foo', 2);
+
+    await expect(test).toHaveUpdated('items');
+    expect(didUpdate).toHaveBeenLastCalledWith(2);
+  });
+
+  it('will export a plain copy', () => {
+    const test = Test.new();
+    const { items } = test.get();
+
+    expect(items).toBeInstanceOf(Map);
+    expect(items).not.toBe(test.items);
+    expect([...items]).toEqual([['foo', 1]]);
+  });
+});
+
+describe('set', () => {
+  class Test extends State {
+    items = collection(new Set(['foo']));
+  }
+
+  it('will update on add', async () => {
+    const test = Test.new();
+
+    expect(test.items.add('bar')).toBe(test.items);
+
+    await expect(test).toHaveUpdated('items');
+    expect(test.items.has('bar')).toBe(true);
+  });
+
+  it('will not update if value exists', async () => {
+    const test = Test.new();
+
+    test.items.add('foo');
+
+    await expect(test).not.toHaveUpdated();
+  });
+
+  it('will export a plain copy', () => {
+    const test = Test.new();
+    const { items } = test.get();
+
+    expect(items).toBeInstanceOf(Set);
+    expect([...items]).toEqual(['foo']);
+  });
+});
+
+it('will ignore value which is not a collection', () => {
+  class Test extends State {
+    items = collection([1]);
+  }
+
+  const test = Test.new();
+
+  test.items = undefined as any;
+
+  expect(test.get().items).toBeUndefined();
+});
@@ -0,0 +1,32 @@
+import { Collection, track } from '../collection';
+import { event } from '../state';
+import { use } from './use';
+
+/**
+ * Create a property holding a reactive Array, Map or Set.
+ *
+ * Changes made in place (such as `push`, `splice`, `set`, `add` or `delete`) will
+ * dispatch an update for this property, so calling `set(key)` afterward is not needed.
+ * Effects which access this property will refresh when contents change.
+ *
+ * Collections assigned to this property later are made reactive as well.
+ * Exported values, via `get()`, are plain copies.
+ *
+ * @param value - Initial collection.
+ */
+function collection<T extends Collection>(value: T): T;
+
+function collection(value: Collection) {
+  return use<Collection>((key, subject) => {
+    const wrap = (value: Collection) => track(value, () => event(subject, key));
+
+    return {
+      value: wrap(value),
+      set(next, previous) {
+        if (next !== previous) return () => wrap(next);
+      }
+    };
+  });
+}
+
+export { collection };
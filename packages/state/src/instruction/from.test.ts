@@ -0,0 +1,129 @@
+import { observable } from '../interop';
+import { State } from '../state';
+import { expect, it, vi } from '../../vitest';
+import { from } from './from';
+
+function subject<T>() {
+  const observers = new Set<observable.Observer<T>>();
+  const unsubscribe = vi.fn();
+
+  return {
+    observers,
+    unsubscribe,
+    next(value: T) {
+      observers.forEach((observer) => observer.next!(value));
+    },
+    error(error: unknown) {
+      observers.forEach((observer) => observer.error!(error));
+    },
+    subscribe(observer: observable.Observer<T>) {
+      observers.add(observer);
+
+      return { unsubscribe };
+    }
+  };
+}
+
+it('will assign values from source', async () => {
+  const source = subject<string>();
+
+  class Test extends State {
+    value = from(source, 'foo');
+  }
+
+  const test = Test.new();
+
+  expect(test.value).toBe('foo');
+
+  source.next('bar');
+
+  expect(test.value).toBe('bar');
+  await expect(test).toHaveUpdated('value');
+});
+
+it('will suspend until source emits', async () => {
+  const source = subject<string>();
+
+  class Test extends State {
+    value = from(source);
+  }
+
+  const test = Test.new();
+
+  expect(() => test.value).toThrow(expect.any(Promise));
+
+  source.next('foo');
+
+  expect(test.value).toBe('foo');
+});
+
+it('will unsubscribe when destroyed', () => {
+  const source = subject<string>();
+
+  class Test extends State {
+    value = from(source);
+  }
+
+  const test = Test.new();
+
+  expect(source.observers.size).toBe(1);
+  expect(source.unsubscribe).not.toBeCalled();
+
+  test.set(null);
+
+  expect(source.unsubscribe).toBeCalled();
+});
+
+it('will throw error from source on access', async () => {
+  const source = subject<string>();
+  const error = new Error('Source failed.');
+
+  class Test extends State {
+    value = from(source, 'foo');
+  }
+
+  const test = Test.new();
+
+  source.error(error);
+
+  expect(() => test.value).toThrow(error);
+  await expect(test).toHaveUpdated('value');
+});
+
+it('will subscribe to interop observable', async () => {
+  class Source extends State {
+    foo = 'foo';
+  }
+
+  const source = Source.new();
+
+  class Test extends State {
+    value = from(observable(source, 'foo'));
+  }
+
+  const test = Test.new();
+
+  expect(test.value).toBe('foo');
+
+  source.foo = 'bar';
+
+  await expect(test).toUpdate();
+
+  expect(test.value).toBe('bar');
+});
+
+it('will subscribe to state directly', () => {
+  class Source extends State {
+    foo = 'foo';
+  }
+
+  const source = Source.new();
+
+  class Test extends State {
+    values = from(source);
+  }
+
+  const test = Test.new();
+
+  expect(test.values).toEqual({ foo: 'foo' });
+});
@@ -0,0 +1,58 @@
+import { observable, subscribable } from '../interop';
+import { listener, report } from '../observable';
+import { event } from '../state';
+import { Instruction, use } from './use';
+
+/**
+ * Bind property to an external source, such as an RxJS Observable.
+ *
+ * Source is subscribed to when state is ready, and values it emits are assigned to property.
+ * Subscription will end when state is destroyed.
+ *
+ * Until a value is received, property will suspend if accessed.
+ * If source errors, the error is thrown on access instead.
+ *
+ * @param source - Object implementing Observable interop, such as a State, or having an equivalent `subscribe` method.
+ * @param initial - Value for property until source emits one.
+ */
+function from<T>(source: observable.Source<T>, initial?: T): T;
+
+function from(source: observable.Source<unknown>, initial?: unknown) {
+  return use((key, subject) => {
+    const property: Instruction.Descriptor = {};
+
+    if (initial === undefined) property.get = true;
+    else property.value = initial;
+
+    listener(
+      subject,
+      () => {
+        const subscription = subscribable(source).subscribe({
+          next(value) {
+            subject.set(key, value);
+          },
+          error(error) {
+            report(error, subject, key, 'factory');
+            event(subject, key);
+            property.get = () => {
+              throw error;
+            };
+          }
+        });
+
+        listener(
+          subject,
+          () => {
+            subscription.unsubscribe();
+          },
+          null
+        );
+      },
+      true
+    );
+
+    return property;
+  });
+}
+
+export { from };
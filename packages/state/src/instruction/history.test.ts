@@ -0,0 +1,221 @@
+import { vi, describe, it, expect } from '../../vitest';
+import { State } from '../state';
+import { history } from './history';
+
+class Test extends State {
+  foo = 'foo';
+  bar = 'bar';
+  history = history();
+}
+
+it('will undo and redo an update', async () => {
+  const test = Test.new();
+
+  test.foo = 'baz';
+  await expect(test).toHaveUpdated();
+
+  expect(test.history.canUndo).toBe(true);
+  expect(test.history.undo()).toBe(true);
+  expect(test.foo).toBe('foo');
+
+  await expect(test).toHaveUpdated('foo');
+
+  expect(test.history.canUndo).toBe(false);
+  expect(test.history.canRedo).toBe(true);
+  expect(test.history.redo()).toBe(true);
+  expect(test.foo).toBe('baz');
+  expect(test.history.canRedo).toBe(false);
+});
+
+it('will record batch as one step', async () => {
+  const test = Test.new();
+
+  test.foo = 'baz';
+  test.bar = 'qux';
+  test.foo = 'quux';
+  await expect(test).toHaveUpdated();
+
+  test.history.undo();
+
+  expect(test.foo).toBe('foo');
+  expect(test.bar).toBe('bar');
+  expect(test.history.canUndo).toBe(false);
+
+  test.history.redo();
+
+  expect(test.foo).toBe('quux');
+  expect(test.bar).toBe('qux');
+});
+
+it('will return false if nothing to undo', () => {
+  const test = Test.new();
+
+  expect(test.history.undo()).toBe(false);
+  expect(test.history.redo()).toBe(false);
+});
+
+it('will not record update which reverts itself', async () => {
+  const test = Test.new();
+
+  test.foo = 'baz';
+  test.foo = 'foo';
+  await expect(test).toHaveUpdated();
+
+  expect(test.history.canUndo).toBe(false);
+});
+
+it('will commit pending update before undo', () => {
+  const test = Test.new();
+
+  test.foo = 'baz';
+  test.history.undo();
+
+  expect(test.foo).toBe('foo');
+  expect(test.history.canRedo).toBe(true);
+});
+
+it('will clear redo on new update', async () => {
+  const test = Test.new();
+
+  test.foo = 'baz';
+  await expect(test).toHaveUpdated();
+
+  test.history.undo();
+  await expect(test).toHaveUpdated();
+
+  test.bar = 'qux';
+  await expect(test).toHaveUpdated();
+
+  expect(test.history.canRedo).toBe(false);
+  expect(test.history.canUndo).toBe(true);
+});
+
+it('will not record undo as a new step', async () => {
+  const test = Test.new();
+
+  test.foo = 'baz';
+  await expect(test).toHaveUpdated();
+
+  test.history.undo();
+  await expect(test).toHaveUpdated();
+
+  expect(test.history.canUndo).toBe(false);
+  expect(test.history.canRedo).toBe(true);
+});
+
+it('will limit number of steps', async () => {
+  class Test extends State {
+    value = 0;
+    history = history({ limit: 2 });
+  }
+
+  const test = Test.new();
+
+  for (let i = 1; i <= 3; i++) {
+    test.value = i;
+    await expect(test).toHaveUpdated();
+  }
+
+  test.history.undo();
+  test.history.undo();
+
+  expect(test.value).toBe(1);
+  expect(test.history.undo()).toBe(false);
+});
+
+it('will ignore excluded properties', async () => {
+  class Test extends State {
+    foo = 'foo';
+    bar = 'bar';
+    history = history({ exclude: ['bar'] });
+  }
+
+  const test = Test.new();
+
+  test.bar = 'qux';
+  await expect(test).toHaveUpdated();
+
+  expect(test.history.canUndo).toBe(false);
+
+  test.foo = 'baz';
+  test.bar = 'quux';
+  await expect(test).toHaveUpdated();
+
+  test.history.undo();
+
+  expect(test.foo).toBe('foo');
+  expect(test.bar).toBe('quux');
+});
+
+it('will ignore events which are not properties', async () => {
+  const test = Test.new();
+
+  test.set('event');
+  await expect(test).toHaveUpdated();
+
+  expect(test.history.canUndo).toBe(false);
+});
+
+it('will record values from constructor as initial', async () => {
+  const test = Test.new({ foo: 'baz' });
+
+  test.foo = 'qux';
+  await expect(test).toHaveUpdated();
+
+  test.history.undo();
+
+  expect(test.foo).toBe('baz');
+});
+
+it('will update subscribers of flags', async () => {
+  const test = Test.new();
+  const effect = vi.fn((state: Test) => {
+    void state.history.canUndo;
+  });
+
+  test.get(effect);
+
+  test.foo = 'baz';
+  await expect(test).toHaveUpdated();
+
+  expect(effect).toBeCalledTimes(2);
+});
+
+it('will not be exported', () => {
+  const test = Test.new();
+
+  expect(test.get()).toEqual({ foo: 'foo', bar: 'bar' });
+});
+
+it('will be read-only', () => {
+  const test = Test.new('ID');
+
+  // @ts-expect-error
+  const assign = () => (test.history = 'foo');
+
+  expect(assign).toThrow('ID.history is read-only.');
+});
+
+it('will be destroyed with parent', () => {
+  const test = Test.new();
+
+  test.set(null);
+
+  expect(test.history.get(null)).toBe(true);
+});
+
+describe('methods', () => {
+  it('will be bound', async () => {
+    const test = Test.new();
+    const { undo, redo } = test.history;
+
+    test.foo = 'baz';
+    await expect(test).toHaveUpdated();
+
+    undo();
+    expect(test.foo).toBe('foo');
+
+    redo();
+    expect(test.foo).toBe('baz');
+  });
+});
@@ -0,0 +1,159 @@
+import { listener } from '../observable';
+import { PARENT, State, STATE, event, update } from '../state';
+import { use } from './use';
+
+declare namespace history {
+  type Options = {
+    /** Maximum number of steps which may be undone. Oldest are discarded first. */
+    limit?: number;
+
+    /** Properties which should not be recorded. */
+    exclude?: string[];
+  };
+
+  /** Previous and next value for each property changed in a single update. */
+  type Step = Map<string, [previous: unknown, next: unknown]>;
+}
+
+/** Undo or redo handler for a given history. */
+const STEP = new WeakMap<History, (undo: boolean) => boolean>();
+
+class History extends State {
+  /** Whether there is a step which may be undone. */
+  canUndo = false;
+
+  /** Whether there is a step which may be redone. */
+  canRedo = false;
+
+  /**
+   * Revert properties changed by the most recent update.
+   *
+   * @returns `true` if a step was undone, `false` if there were none.
+   */
+  undo(): boolean {
+    return STEP.get(this)!(true);
+  }
+
+  /**
+   * Reapply properties reverted by the most recent undo.
+   *
+   * @returns `true` if a step was redone, `false` if there were none.
+   */
+  redo(): boolean {
+    return STEP.get(this)!(false);
+  }
+}
+
+/**
+ * Record changes to this state, so they may be undone.
+ * Each batch of updates is recorded as one step.
+ *
+ * Returns a child state with reactive `canUndo` and `canRedo` flags,
+ * as well as `undo` and `redo` methods.
+ *
+ * @param options - Limit number of steps and/or exclude properties from history.
+ */
+function history(options: history.Options = {}): History {
+  const { limit = Infinity, exclude = [] } = options;
+
+  return use((key, subject) => {
+    const store = STATE.get(subject)!;
+    const ignore = new Set([key, ...exclude]);
+    const pending = new Map<string, unknown>();
+    const undone: history.Step[] = [];
+    const redone: history.Step[] = [];
+    const history = new History();
+
+    let previous: Record<string | number | symbol, unknown>;
+    let replay = false;
+
+    function commit() {
+      const step: history.Step = new Map();
+
+      for (const [key, from] of pending) {
+        const to = store[key];
+
+        if (from !== to) step.set(key, [from, to]);
+
+        previous[key] = to;
+      }
+
+      pending.clear();
+
+      if (step.size) {
+        undone.push(step);
+
+        if (undone.length > limit) undone.shift();
+
+        redone.length = 0;
+        refresh();
+      }
+    }
+
+    function refresh() {
+      history.canUndo = undone.length > 0;
+      history.canRedo = redone.length > 0;
+    }
+
+    STEP.set(history, (undo) => {
+      commit();
+
+      const step = (undo ? undone : redone).pop();
+
+      if (!step) return false;
+
+      replay = true;
+
+      for (const [key, values] of step) {
+        const value = values[undo ? 0 : 1];
+
+        update(subject, key, value);
+        previous[key] = value;
+      }
+
+      replay = false;
+
+      (undo ? redone : undone).push(step);
+      refresh();
+
+      return true;
+    });
+
+    PARENT.set(history, subject);
+    event(history);
+
+    listener(
+      subject,
+      () => {
+        previous = { ...store };
+
+        listener(subject, (key) => {
+          if (key === false) commit();
+          else if (
+            typeof key == 'string' &&
+            key in store &&
+            !replay &&
+            !ignore.has(key) &&
+            !pending.has(key)
+          )
+            pending.set(key, previous[key]);
+        });
+
+        return null;
+      },
+      true
+    );
+
+    subject.set(() => {
+      history.set(null);
+    }, null);
+
+    return {
+      get: () => history,
+      set: false,
+      enumerable: false
+    };
+  });
+}
+
+export { history, History };
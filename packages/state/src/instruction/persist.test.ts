@@ -0,0 +1,632 @@
+import { describe, expect, it, mockError, mockPromise, vi } from '../../vitest';
+import { State } from '../state';
+import { get } from './get';
+import { persist } from './persist';
+
+const error = mockError();
+
+function stored(values: persist.Values, version = 0) {
+  return new Map([['Test', { version, values }]]);
+}
+
+it('will restore saved values', () => {
+  const storage = persist.memory(stored({ foo: 'baz' }));
+
+  class Test extends State {
+    foo = 'foo';
+    bar = 'bar';
+    persist = persist({ storage });
+  }
+
+  const test = Test.new();
+
+  expect(test.foo).toBe('baz');
+  expect(test.bar).toBe('bar');
+});
+
+it('will save values after update', async () => {
+  const map = new Map();
+
+  class Test extends State {
+    foo = 'foo';
+    bar = 'bar';
+    persist = persist({ storage: persist.memory(map) });
+  }
+
+  const test = Test.new();
+
+  test.foo = 'baz';
+  await expect(test).toHaveUpdated();
+
+  expect(map.get('Test')).toEqual({
+    version: 0,
+    values: { foo: 'baz', bar: 'bar' }
+  });
+
+  const next = Test.new();
+
+  expect(next.foo).toBe('baz');
+});
+
+it('will save only selected properties', async () => {
+  const map = new Map();
+
+  class Test extends State {
+    foo = 'foo';
+    bar = 'bar';
+    baz = 'baz';
+    persist = persist({
+      storage: persist.memory(map),
+      include: ['foo', 'bar'],
+      exclude: ['bar']
+    });
+  }
+
+  const test = Test.new();
+
+  test.bar = 'qux';
+  await expect(test).toHaveUpdated();
+
+  expect(map.has('Test')).toBe(false);
+
+  test.foo = 'qux';
+  test.baz = 'qux';
+  await expect(test).toHaveUpdated();
+
+  expect(map.get('Test').values).toEqual({ foo: 'qux' });
+});
+
+it('will restore only selected properties', () => {
+  const storage = persist.memory(stored({ foo: 'qux', bar: 'qux' }));
+
+  class Test extends State {
+    foo = 'foo';
+    bar = 'bar';
+    persist = persist({ storage, exclude: ['bar'] });
+  }
+
+  const test = Test.new();
+
+  expect(test.foo).toBe('qux');
+  expect(test.bar).toBe('bar');
+});
+
+it('will save and restore child state', async () => {
+  const map = new Map();
+
+  class Child extends State {
+    value = 1;
+  }
+
+  class Test extends State {
+    foo = 'foo';
+    child = new Child();
+    persist = persist({ storage: persist.memory(map) });
+  }
+
+  const test = Test.new();
+
+  test.child.value = 2;
+  test.foo = 'bar';
+  await expect(test).toHaveUpdated();
+
+  expect(map.get('Test').values).toEqual({
+    foo: 'bar',
+    child: { value: 2 }
+  });
+
+  const next = Test.new();
+
+  expect(next.child.value).toBe(2);
+});
+
+it('will update effects which ran before restore', async () => {
+  const storage = persist.memory(stored({ foo: 'baz' }));
+  const effect = vi.fn();
+
+  class Test extends State {
+    foo = 'foo';
+    persist = persist({ storage });
+
+    protected new() {
+      this.get(($) => {
+        effect($.foo);
+      });
+    }
+  }
+
+  const test = Test.new();
+
+  await expect(test).toHaveUpdated();
+
+  expect(effect).toHaveBeenLastCalledWith('baz');
+});
+
+it('will not update when set silently', () => {
+  class Test extends State {
+    foo = 'foo';
+    persist = persist({ storage: persist.memory() });
+  }
+
+  const test = Test.new();
+  const emit = vi.fn();
+
+  test.set(emit);
+  test.set({ foo: 'bar' }, true);
+
+  expect(test.foo).toBe('bar');
+  expect(emit).not.toBeCalledWith('foo', test);
+});
+
+it('will adopt state assigned to property', () => {
+  class Child extends State {
+    parent = get(Test);
+  }
+
+  class Test extends State {
+    child: Child | undefined = undefined;
+    persist = persist({ storage: persist.memory() });
+  }
+
+  const test = Test.new();
+  const child = new Child();
+
+  test.child = child;
+
+  expect(child.parent).toBe(test);
+});
+
+it('will not be exported', () => {
+  class Test extends State {
+    foo = 'foo';
+    persist = persist({ storage: persist.memory() });
+  }
+
+  expect(Test.new().get()).toEqual({ foo: 'foo' });
+});
+
+it('will be destroyed with parent', () => {
+  class Test extends State {
+    persist = persist({ storage: persist.memory() });
+  }
+
+  const test = Test.new();
+  const { persist: child } = test;
+
+  test.set(null);
+
+  expect(child.get(null)).toBe(true);
+});
+
+it('will clear saved values', () => {
+  const map = stored({ foo: 'baz' });
+
+  class Test extends State {
+    foo = 'foo';
+    persist = persist({ storage: persist.memory(map) });
+  }
+
+  const test = Test.new();
+
+  test.persist.clear();
+
+  expect(map.size).toBe(0);
+  expect(test.foo).toBe('baz');
+});
+
+describe('key', () => {
+  it('will use custom key', async () => {
+    const map = new Map();
+
+    class Test extends State {
+      foo = 'foo';
+      persist = persist({ storage: persist.memory(map), key: 'custom' });
+    }
+
+    const test = Test.new();
+
+    test.foo = 'bar';
+    await expect(test).toHaveUpdated();
+
+    expect(map.has('custom')).toBe(true);
+  });
+
+  it('will namespace by instance', async () => {
+    const map = new Map();
+
+    class Test extends State {
+      id = 0;
+      foo = 'foo';
+      persist = persist<Test>({
+        storage: persist.memory(map),
+        key: (state) => 'test-' + state.id,
+        exclude: ['id']
+      });
+    }
+
+    const one = Test.new({ id: 1 });
+    const two = Test.new({ id: 2 });
+
+    one.foo = 'bar';
+    two.foo = 'baz';
+
+    await expect(one).toHaveUpdated();
+
+    expect(map.get('test-1').values).toEqual({ foo: 'bar' });
+    expect(map.get('test-2').values).toEqual({ foo: 'baz' });
+    expect(Test.new({ id: 2 }).foo).toBe('baz');
+  });
+});
+
+describe('version', () => {
+  it('will migrate saved values', () => {
+    const storage = persist.memory(stored({ name: 'Foo Bar' }, 1));
+
+    class Test extends State {
+      first = '';
+      last = '';
+      age = 0;
+      persist = persist({
+        storage,
+        version: 4,
+        migrate: {
+          1: () => {
+            throw new Error('Should not run.');
+          },
+          2: ({ name }) => {
+            const [first, last] = name.split(' ');
+            return { first, last };
+          },
+          4: (values) => ({ ...values, age: 30 })
+        }
+      });
+    }
+
+    const test = Test.new();
+
+    expect(test.first).toBe('Foo');
+    expect(test.last).toBe('Bar');
+    expect(test.age).toBe(30);
+  });
+
+  it('will save current version', async () => {
+    const map = new Map();
+
+    class Test extends State {
+      foo = 'foo';
+      persist = persist({ storage: persist.memory(map), version: 2 });
+    }
+
+    const test = Test.new();
+
+    test.foo = 'bar';
+    await expect(test).toHaveUpdated();
+
+    expect(map.get('Test').version).toBe(2);
+  });
+
+  it('will ignore values from newer version', () => {
+    const storage = persist.memory(stored({ foo: 'baz' }, 2));
+
+    class Test extends State {
+      foo = 'foo';
+      persist = persist({ storage, version: 1 });
+    }
+
+    expect(Test.new().foo).toBe('foo');
+  });
+});
+
+describe('async', () => {
+  function async(saved: persist.Saved | null) {
+    const loaded = mockPromise<persist.Saved | null>();
+    const storage: persist.Adapter = {
+      get: vi.fn(() => loaded),
+      set: vi.fn(() => Promise.resolve()),
+      delete: vi.fn(() => Promise.resolve())
+    };
+
+    return { storage, load: () => loaded.resolve(saved) };
+  }
+
+  it('will suspend until loaded', async () => {
+    const { storage, load } = async({ version: 0, values: { foo: 'baz' } });
+
+    class Test extends State {
+      foo = 'foo';
+      bar = 'bar';
+      persist = persist({ storage });
+    }
+
+    const test = Test.new();
+
+    expect(test.persist.loading).toBe(true);
+    expect(() => test.foo).toThrow(expect.any(Promise));
+    expect(() => test.bar).toThrow(expect.any(Promise));
+
+    load();
+
+    await expect(test).toUpdate();
+
+    expect(test.foo).toBe('baz');
+    expect(test.bar).toBe('bar');
+    expect(test.persist.loading).toBe(false);
+  });
+
+  it('will resolve suspense with loaded value', async () => {
+    const { storage, load } = async({ version: 0, values: { foo: 'baz' } });
+
+    class Test extends State {
+      foo = 'foo';
+      persist = persist({ storage });
+    }
+
+    const test = Test.new();
+    let suspense: unknown;
+
+    try {
+      void test.foo;
+    } catch (err) {
+      suspense = err;
+    }
+
+    load();
+
+    await expect(suspense).resolves.toBe('baz');
+  });
+
+  it('will keep values assigned before loaded', async () => {
+    const { storage, load } = async({
+      version: 0,
+      values: { foo: 'baz', bar: 'baz' }
+    });
+
+    class Test extends State {
+      foo = 'foo';
+      bar = 'bar';
+      persist = persist({ storage });
+    }
+
+    const test = Test.new();
+
+    test.foo = 'qux';
+
+    expect(test.foo).toBe('qux');
+
+    load();
+    await expect(test).toHaveUpdated('bar');
+
+    expect(test.foo).toBe('qux');
+    expect(test.bar).toBe('baz');
+  });
+
+  it('will not save until loaded', async () => {
+    const { storage, load } = async(null);
+
+    class Test extends State {
+      foo = 'foo';
+      persist = persist({ storage });
+    }
+
+    const test = Test.new();
+
+    test.foo = 'bar';
+    await expect(test).toHaveUpdated();
+
+    expect(storage.set).not.toBeCalled();
+
+    load();
+    await new Promise((res) => setTimeout(res));
+
+    expect(test.foo).toBe('bar');
+    expect(storage.set).toBeCalledWith('Test', {
+      version: 0,
+      values: { foo: 'bar' }
+    });
+  });
+
+  it('will not suspend child state', () => {
+    const { storage } = async(null);
+
+    class Child extends State {}
+
+    class Test extends State {
+      child = new Child();
+      persist = persist({ storage });
+    }
+
+    expect(Test.new().child).toBeInstanceOf(Child);
+  });
+
+  it('will ignore load if destroyed', async () => {
+    const { storage, load } = async({ version: 0, values: { foo: 'baz' } });
+
+    class Test extends State {
+      foo = 'foo';
+      persist = persist({ storage });
+    }
+
+    const test = Test.new();
+
+    test.set(null);
+    load();
+
+    await new Promise((res) => setTimeout(res));
+
+    expect(storage.set).not.toBeCalled();
+  });
+});
+
+describe('errors', () => {
+  it('will use defaults if load fails', async () => {
+    const failed = new Error('Load failed.');
+    const storage: persist.Adapter = {
+      get: () => Promise.reject(failed),
+      set: vi.fn(),
+      delete: vi.fn()
+    };
+
+    class Test extends State {
+      foo = 'foo';
+      persist = persist({ storage });
+    }
+
+    const test = Test.new();
+
+    await expect(test).toUpdate();
+
+    expect(test.foo).toBe('foo');
+    expect(error).toBeCalledWith(failed);
+  });
+
+  it('will log error if save fails', async () => {
+    const failed = new Error('Save failed.');
+    const storage: persist.Adapter = {
+      get: () => null,
+      set: () => {
+        throw failed;
+      },
+      delete: vi.fn()
+    };
+
+    class Test extends State {
+      foo = 'foo';
+      persist = persist({ storage });
+    }
+
+    const test = Test.new();
+
+    test.foo = 'bar';
+    await expect(test).toHaveUpdated();
+
+    expect(error).toBeCalledWith(`Error in storage for ${test}:`);
+    expect(error).toBeCalledWith(failed);
+  });
+
+  it('will report error to handler', async () => {
+    const failed = new Error('Load failed.');
+    const handler = vi.fn();
+    const storage: persist.Adapter = {
+      get: () => {
+        throw failed;
+      },
+      set: vi.fn(),
+      delete: vi.fn()
+    };
+
+    class Test extends State {
+      foo = 'foo';
+      persist = persist({ storage });
+    }
+
+    const release = Test.onError(handler);
+    const test = Test.new();
+
+    expect(test.foo).toBe('foo');
+    expect(handler).toBeCalledWith(
+      failed,
+      expect.any(Test),
+      'persist',
+      'factory'
+    );
+    expect(error).not.toBeCalled();
+
+    release();
+  });
+});
+
+describe('adapters', () => {
+  function mockStorage() {
+    const items = new Map<string, string>();
+
+    return {
+      items,
+      getItem: (key: string) => (items.has(key) ? items.get(key)! : null),
+      setItem: (key: string, value: string) => {
+        items.set(key, value);
+      },
+      removeItem: (key: string) => {
+        items.delete(key);
+      }
+    } as unknown as Storage & { items: Map<string, string> };
+  }
+
+  it('will save to web storage as JSON', async () => {
+    const storage = mockStorage();
+
+    class Test extends State {
+      foo = 'foo';
+      persist = persist({ storage: persist.web(storage) });
+    }
+
+    const test = Test.new();
+
+    test.foo = 'bar';
+    await expect(test).toHaveUpdated();
+
+    expect(JSON.parse(storage.items.get('Test')!)).toEqual({
+      version: 0,
+      values: { foo: 'bar' }
+    });
+
+    expect(Test.new().foo).toBe('bar');
+
+    test.persist.clear();
+
+    expect(storage.items.size).toBe(0);
+  });
+
+  it('will use localStorage by default', async () => {
+    const storage = mockStorage();
+
+    vi.stubGlobal('localStorage', storage);
+
+    class Test extends State {
+      foo = 'foo';
+      persist = persist();
+    }
+
+    const test = Test.new();
+
+    test.foo = 'bar';
+    await expect(test).toHaveUpdated();
+
+    expect(storage.items.has('Test')).toBe(true);
+
+    vi.unstubAllGlobals();
+  });
+
+  it('will use memory where localStorage is unavailable', async () => {
+    class Test extends State {
+      foo = 'foo';
+      persist = persist();
+    }
+
+    const test = Test.new();
+
+    test.foo = 'bar';
+    await expect(test).toHaveUpdated();
+
+    expect(Test.new().foo).toBe('foo');
+  });
+
+  it('will use sessionStorage', async () => {
+    const storage = mockStorage();
+
+    vi.stubGlobal('sessionStorage', storage);
+
+    class Test extends State {
+      foo = 'foo';
+      persist = persist({ storage: persist.session() });
+    }
+
+    const test = Test.new();
+
+    test.foo = 'bar';
+    await expect(test).toHaveUpdated();
+
+    expect(storage.items.has('Test')).toBe(true);
+
+    vi.unstubAllGlobals();
+  });
+});
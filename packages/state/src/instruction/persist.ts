@@ -0,0 +1,273 @@
+import { listener, pending, report } from '../observable';
+import { PARENT, State, STATE, event, manage } from '../state';
+import { use } from './use';
+
+declare namespace persist {
+  type Values = { [key: string]: any };
+
+  /** Values saved for a state, along with version they were saved under. */
+  type Saved = { version: number; values: Values };
+
+  /** Storage backend for saved values. Any method may return a promise. */
+  interface Adapter {
+    get(key: string): Saved | null | Promise<Saved | null>;
+    set(key: string, saved: Saved): void | Promise<void>;
+    delete(key: string): void | Promise<void>;
+  }
+
+  type Options<T extends State = State> = {
+    /** Where values are saved. Defaults to `localStorage`, or memory where unavailable such as on server. */
+    storage?: Adapter;
+
+    /**
+     * Storage key for this state. Defaults to name of its class.
+     * Use a function to namespace by instance, i.e. `(state) => 'user-' + state.id`.
+     *
+     * **Important** - Class names are often mangled when minified, so a default key
+     * may change between builds and collide with others. Set this in production.
+     */
+    key?: string | ((state: T) => string);
+
+    /** Current version of saved values. Defaults to `0`. */
+    version?: number;
+
+    /** Functions to upgrade saved values, keyed by the version they upgrade to. */
+    migrate?: { [version: number]: (values: Values) => Values };
+
+    /** Properties which should be saved. Defaults to all of them. */
+    include?: string[];
+
+    /** Properties which should not be saved. */
+    exclude?: string[];
+  };
+}
+
+/** Remove handler for a given persist state. */
+const CLEAR = new WeakMap<Persist, () => void | Promise<void>>();
+
+class Persist extends State {
+  /** Whether saved values are still being loaded from storage. */
+  loading = false;
+
+  /** Remove values saved for this state. Current values are not affected. */
+  clear(): void | Promise<void> {
+    return CLEAR.get(this)!();
+  }
+}
+
+/**
+ * Save values of this state to storage, and restore them when state is created.
+ * Values are saved whenever an update to them completes.
+ *
+ * If storage is async, saved properties will suspend until loaded.
+ * Values assigned in the meantime are kept over saved ones.
+ *
+ * Returns a child state with a reactive `loading` flag and `clear` method.
+ *
+ * @param options - Storage, key, versioning and which properties to save.
+ */
+function persist<T extends State>(options: persist.Options<T> = {}): Persist {
+  const { version = 0, migrate = {}, include, exclude = [] } = options;
+
+  return use((property, subject) => {
+    const store = STATE.get(subject)!;
+    const ignore = new Set([property, ...exclude]);
+    const persisted = new Persist();
+    const storage =
+      options.storage ||
+      (typeof localStorage == 'undefined' ? memory() : local());
+
+    let fields: string[];
+    let key: string;
+
+    function attempt<V>(fn: () => V | Promise<V>, fallback: V) {
+      const failed = (error: unknown) => {
+        if (!report(error, subject, property, 'factory')) {
+          console.error(`Error in storage for ${subject}:`);
+          console.error(error);
+        }
+
+        return fallback;
+      };
+
+      try {
+        const output = fn();
+
+        return output instanceof Promise ? output.catch(failed) : output;
+      } catch (error) {
+        return failed(error);
+      }
+    }
+
+    function restore(saved: persist.Saved | null) {
+      const output: persist.Values = {};
+
+      if (!saved || saved.version > version) return output;
+
+      let { values } = saved;
+
+      for (let next = saved.version + 1; next <= version; next++)
+        if (migrate[next]) values = migrate[next](values);
+
+      for (const key of fields) {
+        if (key in values) output[key] = values[key];
+      }
+
+      return output;
+    }
+
+    function save() {
+      const current = subject.get() as persist.Values;
+      const values: persist.Values = {};
+
+      for (const key of fields) values[key] = current[key];
+
+      attempt(() => storage.set(key, { version, values }), undefined);
+    }
+
+    function load(saved: Promise<persist.Saved | null>) {
+      const defaults = new Map<string, unknown>();
+
+      // Properties are removed until loaded, so they will suspend if accessed.
+      for (const key of fields) {
+        const value = store[key];
+
+        if (value instanceof State) continue;
+
+        defaults.set(key, value);
+        delete store[key];
+      }
+
+      persisted.loading = true;
+
+      saved.then((saved) => {
+        if (subject.get(null)) return;
+
+        const values = restore(saved);
+        let assigned = false;
+
+        for (const [key, value] of defaults)
+          if (key in store) {
+            assigned = true;
+            delete values[key];
+          } else if (!(key in values)) values[key] = value;
+
+        persisted.loading = false;
+        subject.set(values);
+
+        // Values assigned while loading were not saved yet.
+        if (assigned) save();
+      });
+    }
+
+    // Plain properties are managed here instead, so they may suspend while loading.
+    for (const key in subject) {
+      const desc = Object.getOwnPropertyDescriptor(subject, key)!;
+      const { value } = desc;
+
+      if (
+        'value' in desc &&
+        typeof value != 'symbol' &&
+        !(value instanceof State)
+      )
+        manage(subject, key, value, true, true);
+    }
+
+    CLEAR.set(persisted, () => attempt(() => storage.delete(key), undefined));
+    PARENT.set(persisted, subject);
+    event(persisted);
+
+    listener(
+      subject,
+      () => {
+        fields = (include || Object.keys(store)).filter((k) => !ignore.has(k));
+        key =
+          typeof options.key == 'function'
+            ? options.key(subject as T)
+            : options.key || subject.constructor.name;
+
+        const saved = attempt(() => storage.get(key), null);
+
+        if (saved instanceof Promise) load(saved);
+        else subject.set(restore(saved));
+
+        listener(subject, (event) => {
+          if (
+            event === false &&
+            !persisted.loading &&
+            pending(subject).some((key) => fields.includes(key as string))
+          )
+            save();
+        });
+
+        return null;
+      },
+      true
+    );
+
+    subject.set(() => {
+      persisted.set(null);
+    }, null);
+
+    return {
+      get: () => persisted,
+      set: false,
+      enumerable: false
+    };
+  });
+}
+
+/**
+ * Adapter for Web Storage, such as `localStorage` or `sessionStorage`.
+ * Values are saved as JSON.
+ *
+ * @param storage - Storage object to use.
+ */
+function web(storage: Storage): persist.Adapter {
+  return {
+    get(key) {
+      const item = storage.getItem(key);
+      return item === null ? null : JSON.parse(item);
+    },
+    set(key, saved) {
+      storage.setItem(key, JSON.stringify(saved));
+    },
+    delete(key) {
+      storage.removeItem(key);
+    }
+  };
+}
+
+/** Adapter for `localStorage`. */
+function local(): persist.Adapter {
+  return web(localStorage);
+}
+
+/** Adapter for `sessionStorage`. */
+function session(): persist.Adapter {
+  return web(sessionStorage);
+}
+
+/**
+ * Adapter which keeps values in memory. Useful for tests and server rendering.
+ *
+ * @param map - Map to keep values in. Shared between instances if provided.
+ */
+function memory(map = new Map<string, persist.Saved>()): persist.Adapter {
+  return {
+    get: (key) => map.get(key) || null,
+    set(key, saved) {
+      map.set(key, saved);
+    },
+    delete(key) {
+      map.delete(key);
+    }
+  };
+}
+
+persist.web = web;
+persist.local = local;
+persist.session = session;
+persist.memory = memory;
+
+export { persist, Persist };
@@ -409,3 +409,22 @@ describe('mapped', () => {
     Test.new();
   });
 });
+
+describe('decorator', () => {
+  it('will create ref property', async () => {
+    class Test extends State {
+      @ref
+      element!: ref.Object<string>;
+    }
+
+    const test = Test.new();
+
+    expect(test.element.current).toBeNull();
+
+    test.element.current = 'foo';
+    await expect(test).toHaveUpdated('element');
+
+    expect(test.element.current).toBe('foo');
+    expect(test.element.key).toBe('element');
+  });
+});
@@ -43,6 +43,14 @@ declare namespace ref {
   };
 }
 
+/**
+ * Decorate a property as ref-compatible, same as `value = ref()` as a field.
+ */
+function ref<T, S extends State>(
+  value: undefined,
+  context: ClassFieldDecoratorContext<S, ref.Object<T>>
+): () => ref.Object<T>;
+
 /**
  * Creates an object with references to all managed values.
  * Each property is a function to set value in state when invoked.
@@ -92,8 +100,10 @@ function ref<T>(
 
 function ref<T>(
   arg?: ref.Callback<T> | State,
-  arg2?: ((key: string) => any) | boolean
+  arg2?: ((key: string) => any) | boolean | ClassFieldDecoratorContext
 ) {
+  if (arg2 && typeof arg2 == 'object') return () => ref();
+
   return use<T>((key, subject, state) => {
     let value = {};
     const method =
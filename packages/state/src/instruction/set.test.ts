@@ -7,6 +7,7 @@ import {
   mockPromise,
   mockError
 } from '../../vitest';
+import { watch } from '../observable';
 import { State } from '../state';
 import { set } from './set';
 
@@ -364,6 +365,59 @@ describe('factory', () => {
       `Generating initial value for ID.memoized failed.`
     );
   });
+  it('will pass abort signal to factory', () => {
+    const factory = vi.fn((_key: string, signal: AbortSignal) => {
+      expect(signal.aborted).toBe(false);
+      return 'foo';
+    });
+
+    class Test extends State {
+      value = set(factory, true);
+    }
+
+    const test = Test.new();
+
+    expect(factory).toBeCalledWith('value', test.get(AbortSignal));
+  });
+
+  it('will discard result after destroyed', async () => {
+    const promise = mockPromise<string>();
+    let signal: AbortSignal | undefined;
+
+    class Test extends State {
+      value = set((_key, abort) => {
+        signal = abort;
+        return promise;
+      }, true);
+    }
+
+    const test = Test.new();
+
+    test.set(null);
+
+    expect(signal!.aborted).toBe(true);
+
+    promise.resolve('foo');
+    await promise;
+
+    expect(test.get('value', false)).toBeUndefined();
+  });
+
+  it('will ignore rejection after destroyed', async () => {
+    const promise = mockPromise<string>();
+
+    class Test extends State {
+      value = set(() => promise, true);
+    }
+
+    const test = Test.new();
+
+    test.set(null);
+    promise.reject(new Error('aborted'));
+
+    await expect(promise).rejects.toThrow();
+    expect(test.get('value', false)).toBeUndefined();
+  });
 });
 
 describe('suspense', () => {
@@ -923,24 +977,26 @@ describe('compute mode', () => {
 
     test.set(emit);
 
+    // Keys emitted for `test`; avoids matching it deeply, which would read `c`.
+    const emitted = () =>
+      emit.mock.calls.map(([key, from]) => from === test && key);
+
     test.a++;
-    expect(emit).toBeCalledTimes(1);
-    expect(emit).toBeCalledWith('a', test);
+    expect(emitted()).toEqual(['a']);
 
     test.b++;
 
-    expect(exec).toBeCalledTimes(2);
-    expect(emit).toBeCalledTimes(3);
-    expect(emit).toBeCalledWith('b', test);
-    expect(emit).toBeCalledWith('c', test);
+    expect(exec).toBeCalledTimes(1);
+    expect(emitted()).toEqual(['a', 'b']);
 
     test.x.value++;
 
     await expect(test).toHaveUpdated();
 
     expect(exec).toBeCalledTimes(2);
-    expect(emit).toBeCalledTimes(3);
-    expect(emit).toBeCalledWith('c', test);
+    expect(emitted()).toEqual(['a', 'b', 'c']);
+    expect(test.c).toBe(6);
+    expect(exec).toBeCalledTimes(2);
   });
 
   it('will be evaluated in order', async () => {
@@ -994,6 +1050,159 @@ describe('compute mode', () => {
     expect(didCompute).toMatchObject(['A', 'B', 'C', 'D']);
   });
 
+  describe('ordering', () => {
+    it('will compute diamond once per update', async () => {
+      const didCompute: string[] = [];
+
+      class Source extends State {
+        value = 1;
+      }
+
+      const source = Source.new();
+
+      class Left extends State {
+        value = set(source, ($) => {
+          didCompute.push('left');
+          return $.value + 1;
+        });
+      }
+
+      class Right extends State {
+        value = set(source, ($) => {
+          didCompute.push('right');
+          return $.value * 10;
+        });
+      }
+
+      const left = Left.new();
+      const right = Right.new();
+
+      class Join extends State {
+        left = left;
+        right = right;
+
+        value = set(this, ($) => {
+          didCompute.push('join');
+          return $.left.value + $.right.value;
+        });
+      }
+
+      const join = Join.new();
+      const effect = vi.fn();
+
+      watch(join, ($) => {
+        effect($.value);
+      });
+
+      expect(effect).toBeCalledWith(12);
+
+      didCompute.length = 0;
+      source.value = 2;
+
+      await expect(join).toUpdate();
+
+      expect(didCompute).toEqual(['left', 'right', 'join']);
+      expect(effect).toBeCalledTimes(2);
+      expect(effect).toHaveBeenLastCalledWith(23);
+    });
+
+    it('will settle chain before effects', async () => {
+      class Source extends State {
+        value = 1;
+      }
+
+      const source = Source.new();
+
+      class Inner extends State {
+        value = set(source, ($) => $.value + 1);
+      }
+
+      const inner = Inner.new();
+
+      class Outer extends State {
+        value = set(inner, ($) => $.value * 10);
+      }
+
+      const outer = Outer.new();
+      const effect = vi.fn();
+
+      watch(source, ($) => {
+        effect($.value, outer.value);
+      });
+
+      watch(outer, ($) => {
+        effect(source.value, $.value);
+      });
+
+      effect.mockClear();
+      source.value = 2;
+
+      await expect(outer).toUpdate();
+
+      expect(effect).toBeCalledTimes(2);
+      expect(effect).toBeCalledWith(2, 30);
+      expect(effect).not.toBeCalledWith(2, 20);
+    });
+
+    it('will settle dependency first where read', async () => {
+      const didCompute: string[] = [];
+
+      class Test extends State {
+        value = 1;
+
+        direct = set(this, ($) => {
+          const value = $.value + $.inner;
+          didCompute.push('direct');
+          return value;
+        });
+
+        inner = set(this, ($) => {
+          const value = $.value * 10;
+          didCompute.push('inner');
+          return value;
+        });
+      }
+
+      const test = Test.new();
+
+      expect(test.direct).toBe(11);
+
+      didCompute.length = 0;
+      test.value = 2;
+
+      await expect(test).toHaveUpdated();
+
+      expect(didCompute).toEqual(['inner', 'direct']);
+      expect(test.direct).toBe(22);
+    });
+
+    it('will stay subscribed after read while stale', async () => {
+      class Source extends State {
+        value = 1;
+      }
+
+      const source = Source.new();
+
+      class Test extends State {
+        value = set(source, ($) => $.value + 1);
+      }
+
+      const test = Test.new();
+
+      expect(test.value).toBe(2);
+
+      source.value = 2;
+      expect(test.value).toBe(3);
+
+      await new Promise((res) => setTimeout(res));
+
+      source.value = 3;
+      await expect(test).toUpdate();
+
+      expect(test.value).toBe(4);
+    });
+  });
+
   describe('failures', () => {
     const error = mockError();
     const warn = mockWarn();
@@ -1221,3 +1430,75 @@ describe('compute mode', () => {
     });
   });
 });
+
+describe('equals', () => {
+  it('will ignore equivalent value', async () => {
+    class Test extends State {
+      value = set({ foo: 'bar' }, { equals: 'shallow' });
+      nested = set({ foo: [1] }, { equals: 'deep' });
+      other = { foo: 'bar' };
+    }
+
+    const test = Test.new();
+
+    test.value = { foo: 'bar' };
+    test.nested = { foo: [1] };
+    await expect(test).not.toHaveUpdated();
+
+    test.other = { foo: 'bar' };
+    await expect(test).toHaveUpdated('other');
+  });
+
+  it('will override class default', async () => {
+    class Test extends State {
+      static equals = 'deep' as const;
+
+      value = set([1], { equals: (a, b) => a.length == b.length });
+      other = [1];
+    }
+
+    const test = Test.new();
+
+    test.value = [2];
+    test.other = [1];
+    await expect(test).not.toHaveUpdated();
+
+    test.value = [1, 2];
+    await expect(test).toHaveUpdated('value');
+  });
+
+  it('will not notify where computed is equivalent', async () => {
+    const compute = vi.fn();
+    const effect = vi.fn();
+
+    class Test extends State {
+      value = 1;
+      parity = set(
+        this,
+        ($) => {
+          compute();
+          return { even: $.value % 2 == 0 };
+        },
+        { equals: 'shallow' }
+      );
+    }
+
+    const test = Test.new();
+
+    test.get(($) => {
+      effect($.parity);
+    });
+
+    test.value = 3;
+    await expect(test).toHaveUpdated('value');
+
+    expect(compute).toBeCalledTimes(2);
+    expect(effect).toBeCalledTimes(1);
+
+    test.value = 4;
+    await expect(test).toHaveUpdated('value', 'parity');
+
+    expect(effect).toBeCalledTimes(2);
+    expect(effect).toHaveBeenLastCalledWith({ even: true });
+  });
+});
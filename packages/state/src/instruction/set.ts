@@ -1,6 +1,15 @@
-import { listener, scope, watch } from '../observable';
-import { access, event, METHOD, State, update } from '../state';
+import {
+  COMPUTED,
+  enqueue,
+  listener,
+  report,
+  scope,
+  settle,
+  subscribe
+} from '../observable';
+import { access, event, EQUALS, METHOD, State, update } from '../state';
 import { Instruction, use } from './use';
+import { validate, validation } from './validation';
 
 const STALE = new WeakSet<() => void>();
 
@@ -13,7 +22,25 @@ declare namespace set {
 
   type Compute<T, S = any> = (on: S, key: string) => T;
 
-  type Factory<T, S = any> = (this: S, key: string) => Promise<T> | T;
+  type Factory<T, S = any> = (
+    this: S,
+    key: string,
+    signal: AbortSignal
+  ) => Promise<T> | T;
+
+  type Options<T> = {
+    /**
+     * Schema to validate values against when assigned. Errors are tracked by `validation()`.
+     * Initial value is not validated, so an empty default will not be flagged until assigned.
+     */
+    schema?: validation.Schema<unknown, T>;
+
+    /** If true, invalid values will not be accepted, otherwise they are only flagged. */
+    reject?: boolean;
+
+    /** How to determine if a value is unchanged, overriding class default. */
+    equals?: State.Equals<T>;
+  };
 }
 
 /**
@@ -27,6 +54,9 @@ function set<T = any>(): T;
 /**
  * Set property with a factory function.
  *
+ * Factory receives an `AbortSignal` which aborts when state is destroyed.
+ * Results which arrive after are discarded.
+ *
  * **Note** Factory is lazy! It will only run if/when property is accessed.
  * Value will be undefined until factory resolves, which will also dispatch an update for the property.
  */
@@ -62,6 +92,17 @@ function set<T>(factory: set.Factory<T>, onUpdate?: set.Callback<T>): T;
  */
 function set<T>(value: T | undefined, onUpdate?: set.Callback<T>): T;
 
+/**
+ * Set a property with options, such as a schema for validation.
+ *
+ * @param value - Starting value or factory for property.
+ * @param options - Options for property, such as `schema` to validate against when assigned.
+ */
+function set<T>(
+  value: T | set.Factory<T> | undefined,
+  options: set.Options<T>
+): T;
+
 /**
  * Implement a reactive computed value using a method reference.
  *
@@ -70,10 +111,12 @@ function set<T>(value: T | undefined, onUpdate?: set.Callback<T>): T;
  *
  * @param reactiveToThis - Pass `true` to enable reactive mode with implicit this
  * @param method - Method reference or compute function to use
+ * @param options - Options for property, such as `equals` to skip update where output is equivalent.
  */
 function set<R, T = any>(
   reactiveToThis: true,
-  method: set.Compute<R, T> | Function
+  method: set.Compute<R, T> | Function,
+  options?: Pick<set.Options<R>, 'equals'>
 ): R;
 
 /**
@@ -81,10 +124,24 @@ function set<R, T = any>(
  *
  * @param reactiveTo - Source state from which computed value will be a subscriber.
  * @param compute - Compute function. Bound to a subscriber-proxy of source, returns output value. Will update automatically as input values change.
+ * @param options - Options for property, such as `equals` to skip update where output is equivalent.
  */
-function set<R, T extends State>(reactiveTo: T, compute: set.Compute<R, T>): R;
+function set<R, T extends State>(
+  reactiveTo: T,
+  compute: set.Compute<R, T>,
+  options?: Pick<set.Options<R>, 'equals'>
+): R;
+
+function set<T = any>(
+  value?: unknown,
+  argument?: unknown,
+  options?: set.Options<T>
+): any {
+  if (argument && typeof argument == 'object') {
+    options = argument;
+    argument = undefined;
+  }
 
-function set<T = any>(value?: unknown, argument?: unknown): any {
   return use<T>((key, subject, state) => {
     if (typeof value == 'symbol')
       throw new Error(
@@ -93,6 +150,14 @@ function set<T = any>(value?: unknown, argument?: unknown): any {
 
     const property: Instruction.Descriptor = {};
 
+    if (options && options.equals) {
+      let fields = EQUALS.get(subject);
+
+      if (!fields) EQUALS.set(subject, (fields = new Map()));
+
+      fields.set(key, options.equals);
+    }
+
     // Handle reactive compute modes
     if (value instanceof State || value === true) {
       let from = subject;
@@ -111,11 +176,12 @@ function set<T = any>(value?: unknown, argument?: unknown): any {
       const source: Source = (resolve) => resolve(from);
 
       let reset: (() => void) | undefined;
+      let refresh: (() => void) | undefined;
       let isAsync: boolean;
       let proxy: any;
 
       function connect(source: State) {
-        reset = watch(
+        reset = subscribe(
           source,
           (current) => {
             proxy = current;
@@ -129,8 +195,15 @@ function set<T = any>(value?: unknown, argument?: unknown): any {
               }
             };
           },
-          false
+          false,
+          (invoke) => enqueue((refresh = invoke), subject, 'compute')
         );
+
+        let computed = COMPUTED.get(subject);
+
+        if (!computed) COMPUTED.set(subject, (computed = new Map()));
+
+        computed.set(key, reset);
       }
 
       function compute(initial?: boolean) {
@@ -139,15 +212,18 @@ function set<T = any>(value?: unknown, argument?: unknown): any {
         try {
           next = getter.call(proxy, proxy, key);
         } catch (err) {
-          console.warn(
-            `An exception was thrown while ${
-              initial ? 'initializing' : 'refreshing'
-            } ${subject}.${key}.`
-          );
+          const handled = report(err, subject, key, 'compute');
+
+          if (!handled)
+            console.warn(
+              `An exception was thrown while ${
+                initial ? 'initializing' : 'refreshing'
+              } ${subject}.${key}.`
+            );
 
           if (initial) throw err;
 
-          console.error(err);
+          if (!handled) console.error(err);
         }
 
         update(subject, key, next, !isAsync);
@@ -159,7 +235,7 @@ function set<T = any>(value?: unknown, argument?: unknown): any {
           isAsync = true;
         }
 
-        if (STALE.delete(compute)) compute();
+        if (STALE.has(compute)) settle(refresh);
 
         return access(subject, key, !proxy) as T;
       };
@@ -168,13 +244,17 @@ function set<T = any>(value?: unknown, argument?: unknown): any {
     // Handle factory/value modes (existing logic)
     if (typeof value == 'function' || value instanceof Promise) {
       function init() {
+        const signal = subject.get(AbortSignal);
+
         if (typeof value == 'function')
           try {
-            value = attempt(value.bind(subject, key));
+            value = attempt(value.bind(subject, key, signal));
           } catch (err) {
-            console.warn(
-              `Generating initial value for ${subject}.${key} failed.`
-            );
+            if (!report(err, subject, key, 'factory'))
+              console.warn(
+                `Generating initial value for ${subject}.${key} failed.`
+              );
+
             throw err;
           }
 
@@ -182,13 +262,22 @@ function set<T = any>(value?: unknown, argument?: unknown): any {
 
         const set = (value: any) => (subject[key] = value);
 
+        // Results which arrive after state is destroyed are discarded.
         if (value instanceof Promise)
-          value.then(set, (error) => {
-            event(subject, key);
-            property.get = () => {
-              throw error;
-            };
-          });
+          value.then(
+            (value) => {
+              if (!signal.aborted) set(value);
+            },
+            (error) => {
+              if (signal.aborted) return;
+
+              report(error, subject, key, 'factory');
+              event(subject, key);
+              property.get = () => {
+                throw error;
+              };
+            }
+          );
         else set(value);
 
         if (argument) return null;
@@ -223,11 +312,23 @@ function set<T = any>(value?: unknown, argument?: unknown): any {
           flush();
         };
       };
-    } else
-      property.set = (value) => {
+    } else {
+      const check =
+        options &&
+        options.schema &&
+        validate(subject, key, options.schema, options.reject);
+
+      property.set = (value, previous) => {
+        const output = check && check(value, previous);
+
+        if (output === false) return false;
+        if (typeof output == 'function') value = output();
+
         property.get = undefined;
-        update(subject, key, value);
+
+        return () => value;
       };
+    }
 
     return property;
   });
@@ -0,0 +1,296 @@
+import { afterEach, describe, expect, it, vi } from '../../vitest';
+import { State } from '../state';
+import { collection } from './collection';
+import { ref } from './ref';
+import { shared } from './shared';
+
+const created = new Set<State>();
+const channels = new Set<BroadcastChannel>();
+
+afterEach(() => {
+  created.forEach((state) => state.set(null));
+  channels.forEach((channel) => channel.close());
+  created.clear();
+  channels.clear();
+  vi.restoreAllMocks();
+});
+
+function create<T extends State>(Type: State.Type<T>, ...args: State.Args<T>) {
+  const state = Type.new(...args);
+  created.add(state);
+  return state;
+}
+
+function channel(name: string) {
+  const channel = new BroadcastChannel(name);
+  const received = vi.fn();
+
+  channel.onmessage = ({ data }) => received(data);
+  channels.add(channel);
+
+  return Object.assign(channel, { received });
+}
+
+function delivery() {
+  return new Promise((res) => setTimeout(res, 50));
+}
+
+class Test extends State {
+  foo = 'foo';
+  bar = 'bar';
+  sync = shared();
+}
+
+it('will mirror updates between instances', async () => {
+  const a = create(Test);
+  const b = create(Test);
+
+  a.foo = 'baz';
+  await expect(a).toHaveUpdated();
+  await delivery();
+
+  expect(b.foo).toBe('baz');
+
+  b.bar = 'qux';
+  await expect(b).toHaveUpdated();
+  await delivery();
+
+  expect(a.bar).toBe('qux');
+});
+
+it('will update subscribers of remote changes', async () => {
+  const a = create(Test);
+  const b = create(Test);
+  const effect = vi.fn();
+
+  b.get(($) => {
+    effect($.foo);
+  });
+
+  a.foo = 'baz';
+  await expect(a).toHaveUpdated();
+  await delivery();
+
+  expect(effect).toHaveBeenLastCalledWith('baz');
+});
+
+it('will post one message per update', async () => {
+  const spy = channel('Test');
+  const test = create(Test);
+
+  test.foo = 'baz';
+  test.bar = 'qux';
+  await expect(test).toHaveUpdated();
+  await delivery();
+
+  expect(spy.received).toBeCalledTimes(1);
+  expect(spy.received).toBeCalledWith({
+    from: expect.any(String),
+    time: expect.any(Number),
+    values: { foo: 'baz', bar: 'qux' }
+  });
+});
+
+it('will not echo remote updates', async () => {
+  const spy = channel('Test');
+  const test = create(Test);
+
+  spy.postMessage({ from: 'remote', time: Date.now(), values: { foo: 'baz' } });
+  await delivery();
+
+  expect(test.foo).toBe('baz');
+  await delivery();
+
+  expect(spy.received).not.toBeCalled();
+});
+
+it('will not share other properties', async () => {
+  class Child extends State {}
+
+  class Excluded extends State {
+    foo = 'foo';
+    bar = 'bar';
+    child = new Child();
+    sync = shared({ exclude: ['bar'] });
+  }
+
+  const spy = channel('Excluded');
+  const test = create(Excluded);
+
+  test.bar = 'qux';
+  test.child = new Child();
+  await expect(test).toHaveUpdated();
+  await delivery();
+
+  expect(spy.received).not.toBeCalled();
+
+  spy.postMessage({
+    from: 'remote',
+    time: Date.now(),
+    values: { foo: 'baz', bar: 'baz' }
+  });
+  await delivery();
+
+  expect(test.foo).toBe('baz');
+  expect(test.bar).toBe('qux');
+});
+
+it('will share only included properties', async () => {
+  class Included extends State {
+    foo = 'foo';
+    bar = 'bar';
+    sync = shared({ include: ['foo'] });
+  }
+
+  const spy = channel('Included');
+  const test = create(Included);
+
+  test.foo = 'baz';
+  test.bar = 'baz';
+  await expect(test).toHaveUpdated();
+  await delivery();
+
+  expect(spy.received).toBeCalledWith(
+    expect.objectContaining({ values: { foo: 'baz' } })
+  );
+});
+
+it('will share exported values', async () => {
+  class Exotic extends State {
+    list = collection([1]);
+    input = ref<string>();
+    sync = shared();
+  }
+
+  const spy = channel('Exotic');
+  const a = create(Exotic);
+  const b = create(Exotic);
+
+  a.list.push(2);
+  a.input.current = 'foo';
+  await expect(a).toHaveUpdated();
+  await delivery();
+
+  expect(spy.received).toBeCalledWith(
+    expect.objectContaining({ values: { list: [1, 2], input: 'foo' } })
+  );
+
+  expect(b.list).toEqual([1, 2]);
+  expect(b.input.current).toBe('foo');
+
+  b.list.push(3);
+  await expect(b).toHaveUpdated('list');
+});
+
+it('will stop when destroyed', async () => {
+  const spy = channel('Test');
+  const test = Test.new();
+
+  test.set(null);
+  spy.postMessage({ from: 'remote', time: Date.now(), values: { foo: 'baz' } });
+  await delivery();
+
+  expect(test.foo).toBe('foo');
+});
+
+describe('channel', () => {
+  it('will use custom channel', async () => {
+    class Test extends State {
+      foo = 'foo';
+      sync = shared({ channel: 'custom' });
+    }
+
+    const spy = channel('custom');
+    const test = create(Test);
+
+    test.foo = 'bar';
+    await expect(test).toHaveUpdated();
+    await delivery();
+
+    expect(spy.received).toBeCalled();
+  });
+
+  it('will share by instance', async () => {
+    class Test extends State {
+      id = 0;
+      foo = 'foo';
+      sync = shared<Test>({
+        channel: (state) => 'test-' + state.id,
+        exclude: ['id']
+      });
+    }
+
+    const a = create(Test, { id: 1 });
+    const b = create(Test, { id: 1 });
+    const c = create(Test, { id: 2 });
+
+    a.foo = 'bar';
+    await expect(a).toHaveUpdated();
+    await delivery();
+
+    expect(b.foo).toBe('bar');
+    expect(c.foo).toBe('foo');
+  });
+});
+
+describe('conflicts', () => {
+  it('will ignore update older than local', async () => {
+    const spy = channel('Test');
+    const test = create(Test);
+
+    vi.spyOn(Date, 'now').mockReturnValue(2000);
+
+    test.foo = 'local';
+    await expect(test).toHaveUpdated();
+
+    spy.postMessage({ from: 'remote', time: 1000, values: { foo: 'remote' } });
+    await delivery();
+
+    expect(test.foo).toBe('local');
+  });
+
+  it('will apply update newer than local', async () => {
+    const spy = channel('Test');
+    const test = create(Test);
+
+    vi.spyOn(Date, 'now').mockReturnValue(1000);
+
+    test.foo = 'local';
+    await expect(test).toHaveUpdated();
+
+    spy.postMessage({ from: 'remote', time: 2000, values: { foo: 'remote' } });
+    await delivery();
+
+    expect(test.foo).toBe('remote');
+  });
+
+  it('will ignore update older than previous remote', async () => {
+    const spy = channel('Test');
+    const test = create(Test);
+
+    spy.postMessage({ from: 'remote', time: 2000, values: { foo: 'newer' } });
+    spy.postMessage({ from: 'remote', time: 1000, values: { foo: 'older' } });
+    await delivery();
+
+    expect(test.foo).toBe('newer');
+  });
+
+  it('will break tie by sender', async () => {
+    const spy = channel('Test');
+    const a = create(Test);
+    const b = create(Test);
+
+    vi.spyOn(Date, 'now').mockReturnValue(1000);
+
+    a.foo = 'a';
+    b.foo = 'b';
+    await expect(a).toHaveUpdated();
+    await delivery();
+
+    const [first, second] = spy.received.mock.calls.map(([data]) => data);
+    const winner = first.from > second.from ? first : second;
+
+    expect(a.foo).toBe(winner.values.foo);
+    expect(b.foo).toBe(winner.values.foo);
+  });
+});
@@ -0,0 +1,136 @@
+import { listener } from '../observable';
+import { State, STATE, uid } from '../state';
+import { use } from './use';
+
+declare namespace shared {
+  type Options<T extends State = State> = {
+    /**
+     * Name of channel to sync over. Defaults to name of class.
+     * Use a function to share by instance, i.e. `(state) => 'user-' + state.id`.
+     *
+     * **Important** - Class names are often mangled when minified, so a default channel
+     * may differ between builds and collide with others. Set this in production.
+     */
+    channel?: string | ((state: T) => string);
+
+    /** Properties which should be shared. Defaults to all of them. */
+    include?: string[];
+
+    /** Properties which should not be shared. */
+    exclude?: string[];
+  };
+
+  /** Message posted to other instances when an update completes. */
+  type Message = {
+    /** Unique ID of instance which posted update. */
+    from: string;
+
+    /** Time of update, by clock of the sender. */
+    time: number;
+
+    /** New values of properties which were updated. */
+    values: { [key: string]: unknown };
+  };
+}
+
+/**
+ * Mirror updates to this state with other instances sharing a channel,
+ * such as the same state in other tabs, via `BroadcastChannel`.
+ *
+ * Updates are posted when they complete. Updates received are applied
+ * to this instance as normal, but are not posted again.
+ * Where updates conflict, the latest one wins.
+ *
+ * Child states are not shared, as they cannot be sent between tabs.
+ *
+ * @param options - Channel name and which properties to share.
+ */
+function shared<T extends State>(options: shared.Options<T> = {}): void {
+  const { include, exclude = [] } = options;
+
+  return use((property, subject) => {
+    const store = STATE.get(subject)!;
+    const ignore = new Set([property, ...exclude]);
+    const changed = new Set<string>();
+    const id = uid();
+
+    /** Time and sender of latest value for each property, to resolve conflicts. */
+    const latest = new Map<string, [time: number, from: string]>();
+
+    let applying = false;
+
+    listener(
+      subject,
+      () => {
+        const fields = (include || Object.keys(store)).filter(
+          (key) => !ignore.has(key) && !(store[key] instanceof State)
+        );
+
+        const channel = new BroadcastChannel(
+          typeof options.channel == 'function'
+            ? options.channel(subject as T)
+            : options.channel || subject.constructor.name
+        );
+
+        channel.onmessage = ({ data }: MessageEvent<shared.Message>) => {
+          const { from, time, values } = data;
+          const accepted: shared.Message['values'] = {};
+
+          for (const key in values) {
+            const last = latest.get(key);
+
+            if (
+              !fields.includes(key) ||
+              (last && (last[0] > time || (last[0] == time && last[1] > from)))
+            )
+              continue;
+
+            latest.set(key, [time, from]);
+            accepted[key] = values[key];
+          }
+
+          // Assigned as `set()` would, so collections and refs are kept in place.
+          applying = true;
+          subject.set(accepted as State.Assign<T>);
+          applying = false;
+        };
+
+        listener(subject, (key) => {
+          if (key === false) {
+            if (!changed.size) return;
+
+            const time = Date.now();
+            const current = subject.get() as shared.Message['values'];
+            const values: shared.Message['values'] = {};
+
+            for (const key of changed) {
+              latest.set(key, [time, id]);
+              values[key] = current[key];
+            }
+
+            changed.clear();
+            channel.postMessage({ from: id, time, values });
+          } else if (
+            typeof key == 'string' &&
+            !applying &&
+            fields.includes(key)
+          )
+            changed.add(key);
+        });
+
+        listener(
+          subject,
+          () => {
+            channel.close();
+          },
+          null
+        );
+
+        return null;
+      },
+      true
+    );
+  }) as void;
+}
+
+export { shared };
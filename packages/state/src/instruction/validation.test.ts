@@ -0,0 +1,265 @@
+import { vi, it, expect, mockError, mockPromise } from '../../vitest';
+import { State } from '../state';
+import { set } from './set';
+import { validation } from './validation';
+
+const error = mockError();
+
+function schema<T>(
+  check: (value: unknown) => string | void,
+  transform = (value: unknown) => value as T
+): validation.Schema<unknown, T> {
+  return {
+    '~standard': {
+      version: 1,
+      vendor: 'test',
+      validate(value) {
+        const message = check(value);
+
+        return message
+          ? { issues: [{ message }] }
+          : { value: transform(value) };
+      }
+    }
+  };
+}
+
+const name = schema<string>((value) => {
+  if (!value) return 'Name is required.';
+});
+
+const age = schema<number>((value) => {
+  if (typeof value != 'number' || value < 0) return 'Age must be positive.';
+});
+
+class Test extends State {
+  name = set('', { schema: name });
+  age = set(0, { schema: age, reject: true });
+  status = validation();
+}
+
+it('will flag invalid value', async () => {
+  const test = Test.new();
+
+  expect(test.status.valid).toBe(true);
+
+  test.name = 'Bob';
+  test.name = '';
+
+  expect(test.name).toBe('');
+  expect(test.status.errors).toEqual({ name: 'Name is required.' });
+  expect(test.status.valid).toBe(false);
+
+  await expect(test.status).toHaveUpdated('errors', 'valid');
+
+  test.name = 'Bob';
+
+  expect(test.status.errors).toEqual({});
+  expect(test.status.valid).toBe(true);
+});
+
+it('will reject invalid value', async () => {
+  const test = Test.new();
+
+  test.age = 10;
+  await expect(test).toHaveUpdated('age');
+
+  test.age = -1;
+
+  expect(test.age).toBe(10);
+  expect(test.status.errors).toEqual({ age: 'Age must be positive.' });
+
+  await expect(test).not.toHaveUpdated();
+});
+
+it('will not update errors if unchanged', async () => {
+  const test = Test.new();
+
+  test.age = -1;
+  await expect(test.status).toHaveUpdated('errors', 'valid');
+
+  test.age = -2;
+  await expect(test.status).not.toHaveUpdated();
+
+  test.age = 1;
+  await expect(test.status).toHaveUpdated('errors', 'valid');
+
+  test.age = 2;
+  await expect(test.status).not.toHaveUpdated();
+});
+
+it('will keep other errors', () => {
+  const test = Test.new();
+
+  test.name = '';
+  test.age = -1;
+  test.name = 'Bob';
+
+  expect(test.status.errors).toEqual({ age: 'Age must be positive.' });
+  expect(test.status.valid).toBe(false);
+});
+
+it('will include status in export', () => {
+  const test = Test.new();
+
+  test.name = '';
+
+  expect(test.get()).toEqual({
+    name: '',
+    age: 0,
+    status: {
+      errors: { name: 'Name is required.' },
+      valid: false
+    }
+  });
+});
+
+it('will refresh effect', async () => {
+  const test = Test.new();
+  const effect = vi.fn();
+
+  test.get(($) => {
+    effect($.status.valid);
+  });
+
+  test.name = '';
+
+  await expect(test.status).toHaveUpdated();
+
+  expect(effect).toBeCalledTimes(2);
+  expect(effect).toHaveBeenLastCalledWith(false);
+});
+
+it('will apply schema output', () => {
+  const trim = schema<string>(
+    () => {},
+    (value) => String(value).trim()
+  );
+
+  class Test extends State {
+    name = set('', { schema: trim });
+  }
+
+  const test = Test.new();
+
+  test.name = '  Bob  ';
+
+  expect(test.name).toBe('Bob');
+});
+
+it('will validate output of factory', async () => {
+  const promise = mockPromise<string>();
+
+  class Test extends State {
+    name = set(() => promise, { schema: name });
+    status = validation();
+  }
+
+  const test = Test.new();
+
+  expect(() => test.name).toThrow();
+
+  promise.resolve('');
+
+  await expect(test).toUpdate();
+
+  expect(test.status.valid).toBe(false);
+});
+
+it('will track errors without validation property', () => {
+  class Test extends State {
+    name = set('Bob', { schema: name });
+  }
+
+  const test = Test.new();
+
+  test.name = '';
+
+  expect(test.get()).toEqual({ name: '' });
+});
+
+it('will flag async result if still current', async () => {
+  const results: ((issues: validation.Issue[]) => void)[] = [];
+  const async: validation.Schema<unknown, string> = {
+    '~standard': {
+      version: 1,
+      vendor: 'test',
+      validate: () =>
+        new Promise((resolve) => {
+          results.push((issues) => resolve({ issues }));
+        })
+    }
+  };
+
+  class Test extends State {
+    name = set('', { schema: async, reject: true });
+    status = validation();
+  }
+
+  const test = Test.new();
+
+  test.name = 'Bob';
+  test.name = '';
+
+  expect(test.name).toBe('');
+
+  results[0]([{ message: 'Stale' }]);
+  results[1]([{ message: 'Required' }]);
+
+  await expect(test.status).toUpdate();
+
+  expect(test.status.errors).toEqual({ name: 'Required' });
+
+  test.name = 'Bob';
+  test.set(null);
+
+  results[2]([{ message: 'Destroyed' }]);
+
+  await new Promise((res) => setTimeout(res));
+
+  expect(test.status.errors).toEqual({ name: 'Required' });
+});
+
+it('will report async schema which rejects', async () => {
+  const failed = new Error('Schema failed.');
+  const handler = vi.fn();
+  const async: validation.Schema<unknown, string> = {
+    '~standard': {
+      version: 1,
+      vendor: 'test',
+      validate: (value) =>
+        value ? Promise.reject(failed) : Promise.resolve({ value: '' })
+    }
+  };
+
+  class Test extends State {
+    name = set('', { schema: async });
+  }
+
+  const test = Test.new();
+
+  test.name = 'Bob';
+  await new Promise((res) => setTimeout(res));
+
+  expect(error).toBeCalledWith(`Error validating ${test}.name:`);
+  expect(error).toBeCalledWith(failed);
+
+  const release = Test.onError(handler);
+
+  test.name = 'Tom';
+  await new Promise((res) => setTimeout(res));
+
+  expect(handler).toBeCalledWith(failed, test, 'name', 'validate');
+  expect(error).toBeCalledTimes(2);
+
+  release();
+});
+
+it('will destroy status with parent', () => {
+  const test = Test.new();
+  const { status } = test;
+
+  test.set(null);
+
+  expect(status.get(null)).toBe(true);
+});
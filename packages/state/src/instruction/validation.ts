@@ -0,0 +1,140 @@
+import { listener, report } from '../observable';
+import { event, PARENT, State, STATE } from '../state';
+import { use } from './use';
+
+declare namespace validation {
+  /**
+   * Any schema implementing [Standard Schema](https://standardschema.dev),
+   * such as those from zod, valibot or arktype.
+   */
+  interface Schema<Input = unknown, Output = Input> {
+    readonly '~standard': {
+      readonly version: 1;
+      readonly vendor: string;
+      readonly validate: (
+        value: unknown
+      ) => Result<Output> | Promise<Result<Output>>;
+      readonly types?: { readonly input: Input; readonly output: Output };
+    };
+  }
+
+  type Result<Output> =
+    | { readonly value: Output; readonly issues?: undefined }
+    | { readonly issues: ReadonlyArray<Issue> };
+
+  interface Issue {
+    readonly message: string;
+    readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+  }
+}
+
+/** Validation state for a given instance, created as needed. */
+const VALIDATION = new WeakMap<State, Validation>();
+
+class Validation extends State {
+  /** Message for each property which is currently invalid. */
+  errors: Readonly<Record<string, string>> = {};
+
+  /** Whether all validated properties are currently valid. Initial values are not validated. */
+  valid = true;
+}
+
+/**
+ * Access validation status of this state.
+ *
+ * Returns a child state with reactive `errors` (first message, by property) and `valid` flag.
+ * These are also included in output of `get()`.
+ */
+function validation(): Validation {
+  return use((_key, subject) => ({
+    value: status(subject),
+    set: false
+  }));
+}
+
+function status(subject: State) {
+  let status = VALIDATION.get(subject);
+
+  if (!status) {
+    const created = (status = new Validation());
+
+    VALIDATION.set(subject, status);
+    PARENT.set(status, subject);
+    listener(
+      subject,
+      () => {
+        created.set(null);
+      },
+      null
+    );
+    event(status);
+  }
+
+  return status;
+}
+
+function flag(
+  subject: State,
+  key: string,
+  issues?: ReadonlyArray<validation.Issue>
+) {
+  if (!issues && !VALIDATION.has(subject)) return;
+
+  const current = status(subject);
+  const errors = { ...current.errors };
+
+  if (issues) {
+    if (errors[key] === issues[0].message) return;
+
+    errors[key] = issues[0].message;
+  } else if (key in errors) {
+    delete errors[key];
+  } else return;
+
+  current.errors = errors;
+  current.valid = !Object.keys(errors).length;
+}
+
+/**
+ * Create a setter which will validate values against a schema.
+ *
+ * Invalid values are flagged, and if `reject` is set, will not be accepted.
+ * Valid values are replaced by schema output, so transforms are applied.
+ * Asynchronous schemas cannot reject a value; it is flagged once resolved, if still current.
+ */
+function validate<T>(
+  subject: State,
+  key: string,
+  schema: validation.Schema<unknown, T>,
+  reject?: boolean
+): State.Setter<T> {
+  return (value) => {
+    const result = schema['~standard'].validate(value);
+
+    if (result instanceof Promise) {
+      result.then(
+        ({ issues }) => {
+          if (!subject.get(null) && STATE.get(subject)![key] === value)
+            flag(subject, key, issues);
+        },
+        (error) => {
+          if (!report(error, subject, key, 'validate')) {
+            console.error(`Error validating ${subject}.${key}:`);
+            console.error(error);
+          }
+        }
+      );
+      return;
+    }
+
+    flag(subject, key, result.issues);
+
+    if (result.issues) return reject ? false : undefined;
+
+    const output = result.value;
+
+    if (output !== value) return () => output;
+  };
+}
+
+export { validation, validate, Validation };
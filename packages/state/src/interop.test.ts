@@ -0,0 +1,133 @@
+import { set } from './instruction/set';
+import { observable } from './interop';
+import { State } from './state';
+import { describe, expect, it, vi } from '../vitest';
+
+class Test extends State {
+  foo = 1;
+  bar = 2;
+}
+
+describe('state', () => {
+  it('will be interop observable', () => {
+    const test = Test.new();
+    const interop = (test as any)['@@observable']();
+
+    expect(interop['@@observable']()).toBe(interop);
+  });
+
+  it('will emit snapshot on subscribe and update', async () => {
+    const test = Test.new();
+    const next = vi.fn();
+
+    (test as any)['@@observable']().subscribe({ next });
+
+    expect(next).toBeCalledWith({ foo: 1, bar: 2 });
+
+    test.foo = 2;
+    test.bar = 3;
+
+    await expect(test).toHaveUpdated();
+
+    expect(next).toBeCalledTimes(2);
+    expect(next).toHaveBeenLastCalledWith({ foo: 2, bar: 3 });
+  });
+
+  it('will complete when destroyed', () => {
+    const test = Test.new();
+    const complete = vi.fn();
+
+    observable(test).subscribe({ complete });
+    test.set(null);
+
+    expect(complete).toBeCalled();
+  });
+
+  it('will complete immediately if destroyed', () => {
+    const test = Test.new();
+    const next = vi.fn();
+    const complete = vi.fn();
+
+    test.set(null);
+    observable(test).subscribe({ next, complete }).unsubscribe();
+
+    expect(next).not.toBeCalled();
+    expect(complete).toBeCalled();
+    expect(() => observable(test).subscribe({})).not.toThrow();
+  });
+
+  it('will stop on unsubscribe', async () => {
+    const test = Test.new();
+    const next = vi.fn();
+    const subscription = observable(test).subscribe(next);
+
+    subscription.unsubscribe();
+    test.foo = 2;
+
+    await expect(test).toHaveUpdated();
+
+    expect(next).toBeCalledTimes(1);
+  });
+
+  it('will accept observer without callbacks', async () => {
+    const test = Test.new();
+
+    observable(test).subscribe({});
+    test.foo = 2;
+
+    await expect(test).toHaveUpdated();
+
+    test.set(null);
+  });
+});
+
+describe('key', () => {
+  it('will emit value of property', async () => {
+    const test = Test.new();
+    const next = vi.fn();
+
+    observable(test, 'foo').subscribe(next);
+
+    expect(next).toBeCalledWith(1);
+
+    test.bar = 3;
+    await expect(test).toHaveUpdated();
+
+    expect(next).toBeCalledTimes(1);
+
+    test.foo = 2;
+    await expect(test).toHaveUpdated();
+
+    expect(next).toBeCalledTimes(2);
+    expect(next).toHaveBeenLastCalledWith(2);
+  });
+
+  it('will wait for value to be available', async () => {
+    class Test extends State {
+      foo = set<string>();
+    }
+
+    const test = Test.new();
+    const next = vi.fn();
+
+    observable(test, 'foo').subscribe(next);
+
+    expect(next).not.toBeCalled();
+
+    test.foo = 'bar';
+    await expect(test).toHaveUpdated();
+
+    expect(next).toBeCalledWith('bar');
+  });
+
+  it('will throw error from observer', () => {
+    const test = Test.new();
+    const error = new Error('Observer failed.');
+
+    expect(() =>
+      observable(test, 'foo').subscribe(() => {
+        throw error;
+      })
+    ).toThrow(error);
+  });
+});
@@ -0,0 +1,111 @@
+import { listener, pending } from './observable';
+import { OBSERVABLE, State } from './state';
+
+declare namespace observable {
+  interface Observer<T> {
+    next?(value: T): void;
+    error?(error: unknown): void;
+    complete?(): void;
+  }
+
+  interface Subscription {
+    unsubscribe(): void;
+  }
+
+  /** Object implementing the [Observable](https://github.com/tc39/proposal-observable) interop contract, as used by RxJS. */
+  interface Subscribable<T> {
+    subscribe(observer: Observer<T> | ((value: T) => void)): Subscription;
+  }
+
+  /** Object which provides an interop observable via `Symbol.observable`, such as a State. */
+  interface Interop<T> {
+    [OBSERVABLE](): Subscribable<T>;
+  }
+
+  /** Any source which may be subscribed to. */
+  type Source<T> = Subscribable<T> | Interop<T>;
+}
+
+/**
+ * Create an interop observable for a state, which may be consumed by RxJS
+ * and similar libraries. Emits a snapshot of values, via `get()`, on subscribe
+ * and whenever an update completes. Will complete when state is destroyed.
+ *
+ * @param state - State to observe.
+ */
+function observable<T extends State>(
+  state: T
+): observable.Subscribable<State.Values<T>>;
+
+/**
+ * Create an interop observable for a property of state.
+ * Emits current value on subscribe (if available) and whenever property updates.
+ * Will complete when state is destroyed.
+ *
+ * @param state - State to observe.
+ * @param key - Property to emit values of.
+ */
+function observable<T extends State, K extends State.Field<T>>(
+  state: T,
+  key: K
+): observable.Subscribable<State.Value<T, K>>;
+
+function observable(state: State, key?: string) {
+  const { is } = state;
+  const self = {
+    subscribe(arg: observable.Observer<unknown> | ((value: unknown) => void)) {
+      const observer = typeof arg == 'function' ? { next: arg } : arg;
+
+      function next() {
+        if (observer.next)
+          observer.next(key === undefined ? is.get() : is.get(key));
+      }
+
+      if (is.get(null)) {
+        if (observer.complete) observer.complete();
+
+        return { unsubscribe() {} };
+      }
+
+      try {
+        next();
+      } catch (err) {
+        if (!(err instanceof Promise)) throw err;
+      }
+
+      const release = listener(
+        is,
+        (event) => {
+          if (event === null) {
+            if (observer.complete) observer.complete();
+          } else if (key === undefined || pending(is).includes(key)) next();
+        },
+        new Set([false, null])
+      );
+
+      return {
+        unsubscribe() {
+          release();
+        }
+      };
+    },
+    [OBSERVABLE](): observable.Subscribable<unknown> {
+      return self;
+    }
+  };
+
+  return self;
+}
+
+/** Get interop observable of a source, if it provides one. */
+function subscribable<T>(
+  source: observable.Source<T>
+): observable.Subscribable<T> {
+  const interop = (source as observable.Interop<T>)[OBSERVABLE];
+
+  return typeof interop == 'function'
+    ? interop.call(source)
+    : (source as observable.Subscribable<T>);
+}
+
+export { observable, subscribable };
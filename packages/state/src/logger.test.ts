@@ -0,0 +1,225 @@
+import { afterEach, describe, expect, it, vi } from '../vitest';
+import { logger } from './logger';
+import { State } from './state';
+
+const release = new Set<() => void>();
+
+afterEach(() => {
+  release.forEach((fn) => fn());
+  release.clear();
+});
+
+function log<T extends State>(options: logger.Options<T> = {}) {
+  const entries: logger.Entry<T>[] = [];
+
+  release.add(logger({ sink: entries, ...options }));
+
+  return entries;
+}
+
+class Test extends State {
+  foo = 1;
+  bar = 2;
+}
+
+it('will log previous and next values', async () => {
+  const entries = log();
+  const test = Test.new('ID');
+
+  test.foo = 2;
+  test.bar = 3;
+  await expect(test).toHaveUpdated();
+
+  expect(entries).toEqual([
+    {
+      type: 'Test',
+      id: 'ID',
+      state: test,
+      changes: { foo: [1, 2], bar: [2, 3] }
+    }
+  ]);
+
+  test.foo = 3;
+  await expect(test).toHaveUpdated();
+
+  expect(entries[1].changes).toEqual({ foo: [2, 3] });
+});
+
+it('will log value before first change in update', async () => {
+  const entries = log();
+  const test = Test.new();
+
+  test.foo = 2;
+  test.foo = 3;
+  await expect(test).toHaveUpdated();
+
+  expect(entries[0].changes).toEqual({ foo: [1, 3] });
+});
+
+it('will log values from constructor as initial', async () => {
+  const entries = log();
+  const test = Test.new({ foo: 10 });
+
+  test.foo = 11;
+  await expect(test).toHaveUpdated();
+
+  expect(entries[0].changes).toEqual({ foo: [10, 11] });
+});
+
+it('will send all entries in a flush together', async () => {
+  const sink = vi.fn();
+  const a = Test.new();
+
+  release.add(logger({ sink }));
+
+  const c = Test.new();
+  const d = Test.new();
+
+  a.foo = 2;
+  c.foo = 2;
+  d.bar = 3;
+  await expect(d).toHaveUpdated();
+
+  expect(sink).toBeCalledTimes(1);
+  expect(
+    sink.mock.calls[0][0].map((entry: logger.Entry) => entry.state)
+  ).toEqual([c, d]);
+});
+
+it('will ignore events which are not properties', async () => {
+  const entries = log();
+  const test = Test.new();
+
+  test.set('custom');
+  await expect(test).toHaveUpdated();
+
+  expect(entries).toEqual([]);
+});
+
+it('will stop logging', async () => {
+  const entries: logger.Entry[] = [];
+  const stop = logger({ sink: entries });
+  const test = Test.new();
+
+  stop();
+  test.foo = 2;
+  await expect(test).toHaveUpdated();
+
+  expect(entries).toEqual([]);
+});
+
+describe('filter', () => {
+  class Other extends State {
+    foo = 1;
+  }
+
+  it('will log only given class', async () => {
+    const entries = log({ type: Test });
+    const test = Test.new();
+    const other = Other.new();
+
+    test.foo = 2;
+    other.foo = 2;
+    await expect(test).toHaveUpdated();
+
+    expect(entries.map((entry) => entry.state)).toEqual([test]);
+  });
+
+  it('will log subclasses', async () => {
+    class Sub extends Test {}
+
+    const entries = log({ type: Test });
+    const sub = Sub.new();
+
+    sub.foo = 2;
+    await expect(sub).toHaveUpdated();
+
+    expect(entries[0].type).toBe('Sub');
+  });
+
+  it('will log only given keys', async () => {
+    const entries = log({ keys: ['foo'] });
+    const test = Test.new();
+
+    test.bar = 3;
+    await expect(test).toHaveUpdated();
+
+    expect(entries).toEqual([]);
+
+    test.foo = 2;
+    test.bar = 4;
+    await expect(test).toHaveUpdated();
+
+    expect(entries[0].changes).toEqual({ foo: [1, 2] });
+  });
+
+  it('will log entries which pass predicate', async () => {
+    const entries = log<Test>({
+      type: Test,
+      filter: (entry) => entry.state.foo > 2
+    });
+
+    const test = Test.new();
+
+    test.foo = 2;
+    await expect(test).toHaveUpdated();
+
+    expect(entries).toEqual([]);
+
+    test.foo = 3;
+    await expect(test).toHaveUpdated();
+
+    expect(entries[0].changes).toEqual({ foo: [2, 3] });
+  });
+});
+
+describe('console', () => {
+  function mockConsole() {
+    return {
+      group: vi.spyOn(console, 'group').mockImplementation(() => {}),
+      collapsed: vi
+        .spyOn(console, 'groupCollapsed')
+        .mockImplementation(() => {}),
+      end: vi.spyOn(console, 'groupEnd').mockImplementation(() => {}),
+      log: vi.spyOn(console, 'log').mockImplementation(() => {})
+    };
+  }
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('will print collapsed group for each flush', async () => {
+    const output = mockConsole();
+
+    release.add(logger());
+
+    const a = Test.new('A');
+    const b = Test.new('B');
+
+    a.foo = 2;
+    a.bar = 3;
+    b.foo = 2;
+    await expect(b).toHaveUpdated();
+
+    expect(output.collapsed).toBeCalledWith('A (foo, bar), B (foo)');
+    expect(output.log).toBeCalledWith('A.foo:', 1, '→', 2);
+    expect(output.log).toBeCalledWith('A.bar:', 2, '→', 3);
+    expect(output.log).toBeCalledWith('B.foo:', 1, '→', 2);
+    expect(output.end).toBeCalledTimes(1);
+  });
+
+  it('will print expanded group', async () => {
+    const output = mockConsole();
+
+    release.add(logger({ collapsed: false }));
+
+    const test = Test.new('A');
+
+    test.foo = 2;
+    await expect(test).toHaveUpdated();
+
+    expect(output.group).toBeCalledWith('A (foo)');
+    expect(output.collapsed).not.toBeCalled();
+  });
+});
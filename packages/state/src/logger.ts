@@ -0,0 +1,161 @@
+import { enqueue, listener } from './observable';
+import { State, STATE } from './state';
+
+declare namespace logger {
+  /** Properties of a state changed in a single update. */
+  type Entry<T extends State = State> = {
+    /** Name of class of state. */
+    type: string;
+
+    /** ID of state. */
+    id: string;
+
+    /** State which was updated. */
+    state: T;
+
+    /** Previous and next value for each property changed. */
+    changes: { [key: string]: [previous: unknown, next: unknown] };
+  };
+
+  /** Receives all entries logged within a single flush. */
+  type Sink<T extends State = State> = (entries: Entry<T>[]) => void;
+
+  type Options<T extends State = State> = {
+    /** Class to log updates for, including subclasses. Defaults to all states. */
+    type?: State.Extends<T>;
+
+    /** Properties which should be logged. Defaults to all of them. */
+    keys?: string[];
+
+    /** Function to decide if an entry should be logged. */
+    filter?: (entry: Entry<T>) => boolean;
+
+    /**
+     * Where entries are logged. May be a function, or an array to push entries to.
+     * Defaults to console, with a group for each flush.
+     */
+    sink?: Sink<T> | Entry<T>[];
+
+    /** Whether console groups are collapsed. Defaults to `true`. */
+    collapsed?: boolean;
+  };
+}
+
+/**
+ * Log every update to states of a given class, as they complete.
+ * Only states created after logger is added will be logged.
+ *
+ * @param options - Class, properties and filter to log, as well as where to log them.
+ * @returns Function to stop logging.
+ */
+function logger<T extends State = State>(options: logger.Options<T> = {}) {
+  const {
+    type = State,
+    keys,
+    filter,
+    sink = print(options.collapsed)
+  } = options;
+  const output = Array.isArray(sink)
+    ? (entries: logger.Entry<T>[]) => sink.push(...entries)
+    : sink;
+
+  /** Last known value of properties, by state. */
+  const previous = new WeakMap<State, { [key: string]: unknown }>();
+
+  /** Previous value of properties changed in current update, by state. */
+  const pending = new WeakMap<State, Map<string, unknown>>();
+
+  let batch: logger.Entry<T>[] | undefined;
+  let active = true;
+
+  function flush() {
+    const entries = batch!;
+
+    batch = undefined;
+    output(entries);
+  }
+
+  function commit(state: T) {
+    const changed = pending.get(state);
+    const values = previous.get(state)!;
+    const store = STATE.get(state)!;
+
+    if (!changed) return;
+
+    const entry: logger.Entry<T> = {
+      type: state.constructor.name,
+      id: String(state),
+      state,
+      changes: {}
+    };
+
+    for (const [key, value] of changed) {
+      entry.changes[key] = [value, store[key]];
+      values[key] = store[key];
+    }
+
+    pending.delete(state);
+
+    if (filter && !filter(entry)) return;
+
+    if (!batch) {
+      batch = [];
+      enqueue(flush);
+    }
+
+    batch.push(entry);
+  }
+
+  const release = (type as State.Extends<T>).on(function (key) {
+    if (!active) return null;
+
+    const store = STATE.get(this)!;
+
+    if (key === true)
+      listener(
+        this,
+        () => {
+          previous.set(this, { ...store });
+          return null;
+        },
+        true
+      );
+    else if (key === false) commit(this);
+    else if (
+      typeof key == 'string' &&
+      key in store &&
+      (!keys || keys.includes(key))
+    ) {
+      let changed = pending.get(this);
+
+      if (!changed) pending.set(this, (changed = new Map()));
+
+      if (!changed.has(key)) changed.set(key, previous.get(this)![key]);
+    }
+  });
+
+  return () => {
+    active = false;
+    release();
+  };
+}
+
+/** Sink to print entries to console, grouped by flush. */
+function print(collapsed = true): logger.Sink {
+  return (entries) => {
+    const title = entries
+      .map(({ id, changes }) => `${id} (${Object.keys(changes).join(', ')})`)
+      .join(', ');
+
+    if (collapsed) console.groupCollapsed(title);
+    else console.group(title);
+
+    for (const { id, changes } of entries)
+      for (const key in changes)
+        console.log(`${id}.${key}:`, changes[key][0], '→', changes[key][1]);
+
+    console.groupEnd();
+  };
+}
+
+export { logger };
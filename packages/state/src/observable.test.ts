@@ -1,7 +1,24 @@
-import { watch, Observable } from './observable';
+import {
+  watch,
+  event,
+  listener,
+  Observable,
+  flush,
+  scheduler,
+  dependencies,
+  trace
+} from './observable';
 import { set } from './instruction/set';
 import { use } from './instruction/use';
-import { mockError, vi, describe, it, expect, mockPromise } from '../vitest';
+import {
+  mockError,
+  vi,
+  describe,
+  it,
+  expect,
+  mockPromise,
+  afterEach
+} from '../vitest';
 import { State } from './state';
 
 describe('effect', () => {
@@ -257,6 +274,85 @@ describe('effect', () => {
   });
 });
 
+describe('watch decorator', () => {
+  it('will call method when property updates', async () => {
+    const mock = vi.fn();
+
+    class Test extends State {
+      foo = 1;
+      bar = 2;
+
+      @watch('foo')
+      onFoo() {
+        mock(this.foo);
+      }
+    }
+
+    const test = Test.new();
+
+    expect(mock).not.toBeCalled();
+
+    test.bar = 3;
+    await expect(test).toHaveUpdated('bar');
+
+    expect(mock).not.toBeCalled();
+
+    test.foo = 2;
+    await expect(test).toHaveUpdated('foo');
+
+    expect(mock).toBeCalledWith(2);
+  });
+
+  it('will call once for multiple properties', async () => {
+    const mock = vi.fn();
+
+    class Test extends State {
+      foo = 1;
+      bar = 2;
+
+      @watch('foo', 'bar')
+      onChange() {
+        mock(this.foo, this.bar);
+      }
+    }
+
+    const test = Test.new();
+
+    test.foo = 2;
+    test.bar = 3;
+    await expect(test).toHaveUpdated('foo', 'bar');
+
+    expect(mock).toBeCalledTimes(1);
+    expect(mock).toBeCalledWith(2, 3);
+  });
+
+  it('will stop when destroyed', async () => {
+    const mock = vi.fn();
+
+    class Test extends State {
+      foo = 1;
+
+      @watch('foo')
+      onFoo() {
+        mock();
+      }
+    }
+
+    const test = Test.new();
+
+    test.set(null);
+    test.set('foo');
+    await new Promise((res) => setTimeout(res));
+
+    expect(mock).not.toBeCalled();
+  });
+
+  it('will require a key', () => {
+    // @ts-expect-error
+    expect(() => watch()).toThrow();
+  });
+});
+
 describe('suspense', () => {
   it('will seem to throw error outside react', () => {
     class Test extends State {
@@ -336,6 +432,32 @@ describe('errors', () => {
   });
 });
 
+describe('event', () => {
+  it('will complete update started by silent event', async () => {
+    class Test extends State {
+      foo = 1;
+      bar = 2;
+    }
+
+    const test = Test.new();
+    const done = vi.fn();
+
+    listener(test, (key) => {
+      if (key === false) done();
+    });
+
+    event(test, 'foo', true);
+    await new Promise((res) => setTimeout(res));
+
+    expect(done).toBeCalledTimes(1);
+
+    test.bar = 3;
+    await expect(test).toHaveUpdated('bar');
+
+    expect(done).toBeCalledTimes(2);
+  });
+});
+
 describe('observable', () => {
   it.each(['', ' (returning)'])('will update effect%s', async (returns) => {
     class MyObservable implements Observable {
@@ -372,3 +494,330 @@ describe('observable', () => {
     expect(mock).toBeCalledTimes(2);
   });
 });
+
+describe('dependencies', () => {
+  class Child extends State {
+    value = 1;
+    other = 2;
+  }
+
+  class Test extends State {
+    foo = 1;
+    bar = 2;
+    child = new Child();
+  }
+
+  it('will list values accessed by effect', () => {
+    const test = Test.new();
+    const release = watch(test, ($) => {
+      void $.foo;
+      void $.child.value;
+      void $.child.value;
+    });
+
+    expect(dependencies(release)).toEqual([
+      [test, 'foo'],
+      [test, 'child'],
+      [test.child, 'value']
+    ]);
+  });
+
+  it('will list values accessed by latest run', async () => {
+    const test = Test.new();
+    const release = test.get(($) => {
+      void ($.foo > 1 ? $.bar : $.child.other);
+    });
+
+    expect(dependencies(release)).toEqual([
+      [test, 'foo'],
+      [test, 'child'],
+      [test.child, 'other']
+    ]);
+
+    test.foo = 2;
+
+    await expect(test).toHaveUpdated();
+
+    expect(dependencies(release)).toEqual([
+      [test, 'foo'],
+      [test, 'bar']
+    ]);
+  });
+
+  it('will list values accessed by computed', () => {
+    class Test extends State {
+      foo = 1;
+      bar = 2;
+      sum = set(this, ($) => $.foo + $.bar);
+    }
+
+    const test = Test.new();
+
+    expect(() => dependencies(test, 'sum')).toThrow(
+      `${test}.sum is not an active computed value.`
+    );
+
+    void test.sum;
+
+    expect(dependencies(test, 'sum')).toEqual([
+      [test, 'foo'],
+      [test, 'bar']
+    ]);
+  });
+
+  it('will throw if not an effect', () => {
+    expect(() => dependencies(() => {})).toThrow(
+      'Function provided is not an effect.'
+    );
+  });
+});
+
+describe('trace', () => {
+  class Child extends State {
+    value = 1;
+  }
+
+  class Test extends State {
+    foo = 1;
+    bar = 2;
+    child = new Child();
+  }
+
+  it('will record cause of each refresh', async () => {
+    const test = Test.new();
+    const release = watch(test, ($) => {
+      void $.foo;
+      void $.bar;
+      void $.child.value;
+    });
+
+    const log = trace(release);
+
+    test.foo = 2;
+    test.bar = 3;
+
+    await expect(test).toHaveUpdated();
+
+    expect(log).toEqual([
+      [
+        [test, 'foo'],
+        [test, 'bar']
+      ]
+    ]);
+
+    test.child.value = 2;
+
+    await expect(test.child).toHaveUpdated();
+
+    expect(log).toHaveLength(2);
+    expect(log[1]).toEqual([[test.child, 'value']]);
+    expect(trace(release)).toBe(log);
+  });
+
+  it('will record cause of computed refresh', async () => {
+    class Test extends State {
+      foo = 1;
+      double = set(this, ($) => $.foo * 2);
+    }
+
+    const test = Test.new();
+
+    void test.double;
+
+    const log = trace(test, 'double');
+
+    test.foo = 2;
+
+    await expect(test).toHaveUpdated();
+
+    expect(log).toEqual([[[test, 'foo']]]);
+  });
+
+  it('will not record if not traced', async () => {
+    const test = Test.new();
+    const release = watch(test, ($) => {
+      void $.foo;
+    });
+
+    test.foo = 2;
+
+    await expect(test).toHaveUpdated();
+
+    expect(trace(release)).toEqual([]);
+  });
+});
+
+describe('scheduler', () => {
+  class Test extends State {
+    value = 1;
+  }
+
+  afterEach(() => {
+    scheduler('timeout');
+  });
+
+  it('will flush on demand', () => {
+    const test = Test.new();
+    const effect = vi.fn((state: Test) => void state.value);
+
+    test.get(effect);
+    test.value = 2;
+
+    expect(effect).toBeCalledTimes(1);
+
+    flush();
+
+    expect(effect).toBeCalledTimes(2);
+  });
+
+  it('will flush synchronously', () => {
+    scheduler('sync');
+
+    const test = Test.new();
+    const effect = vi.fn((state: Test) => void state.value);
+    const didUpdate = vi.fn();
+
+    test.get(effect);
+    test.set((key) => {
+      didUpdate(key);
+      return () => didUpdate(false);
+    });
+
+    test.value = 2;
+
+    expect(didUpdate.mock.calls).toEqual([['value'], [false]]);
+    expect(effect).toBeCalledTimes(2);
+
+    test.set({ value: 3 });
+
+    expect(effect).toBeCalledTimes(3);
+  });
+
+  it('will flush on microtask', async () => {
+    scheduler('microtask');
+
+    const test = Test.new();
+    const effect = vi.fn((state: Test) => void state.value);
+
+    test.get(effect);
+    test.value = 2;
+
+    expect(effect).toBeCalledTimes(1);
+
+    await Promise.resolve();
+
+    expect(effect).toBeCalledTimes(2);
+  });
+
+  it('will resolve pending on microtask', async () => {
+    scheduler('microtask');
+
+    const test = Test.new();
+
+    test.value = 2;
+
+    await expect(test.set()).resolves.toEqual(['value']);
+  });
+
+  it('will not flush if manual', async () => {
+    scheduler('manual');
+
+    const test = Test.new();
+    const effect = vi.fn((state: Test) => void state.value);
+
+    test.get(effect);
+    test.value = 2;
+
+    await new Promise((res) => setTimeout(res, 10));
+
+    expect(effect).toBeCalledTimes(1);
+
+    flush();
+
+    expect(effect).toBeCalledTimes(2);
+  });
+
+  it('will flush on animation frame', async () => {
+    const request = vi.fn((cb: () => void) => setTimeout(cb, 0));
+
+    vi.stubGlobal('requestAnimationFrame', request);
+    scheduler('frame');
+
+    const test = Test.new();
+
+    test.value = 2;
+
+    await expect(test).toHaveUpdated('value');
+    expect(request).toBeCalledTimes(1);
+
+    vi.unstubAllGlobals();
+  });
+
+  it('will flush on timeout if animation frame is unavailable', async () => {
+    scheduler('frame');
+
+    const test = Test.new();
+
+    test.value = 2;
+
+    await expect(test).toHaveUpdated('value');
+  });
+
+  it('will accept custom scheduler', () => {
+    const queue: (() => void)[] = [];
+    const previous = scheduler((flush) => queue.push(flush));
+    const test = Test.new();
+    const effect = vi.fn((state: Test) => void state.value);
+
+    test.get(effect);
+    test.value = 2;
+    test.value = 3;
+
+    expect(queue).toHaveLength(1);
+
+    queue[0]();
+
+    expect(effect).toBeCalledTimes(2);
+
+    scheduler(previous);
+  });
+
+  it('will ignore request if flushed already', () => {
+    const queue: (() => void)[] = [];
+
+    scheduler((flush) => queue.push(flush));
+
+    const test = Test.new();
+    const effect = vi.fn((state: Test) => void state.value);
+
+    test.get(effect);
+    test.value = 2;
+    flush();
+
+    test.value = 3;
+    queue[0]();
+
+    expect(effect).toBeCalledTimes(2);
+
+    queue[1]();
+
+    expect(effect).toBeCalledTimes(3);
+  });
+
+  it('will ignore flush while dispatching', () => {
+    scheduler('manual');
+
+    const test = Test.new();
+    const effect = vi.fn((state: Test) => {
+      void state.value;
+      flush();
+    });
+
+    test.get(effect);
+    test.value = 2;
+
+    flush();
+
+    expect(effect).toBeCalledTimes(2);
+  });
+});
@@ -29,10 +29,57 @@ type PromiseLite<T = void> = { then: (callback: () => T) => T };
 
 type Observer<T = any> = (key: string | number, value: T) => T;
 
-type Callback = () => void | PromiseLite;
+/**
+ * Refresh callback for an observer.
+ *
+ * @param key - Property which has updated, if known.
+ * @param source - Observable which was updated, if known.
+ */
+type Callback = (key?: Event, source?: Observable) => void | PromiseLite;
+
+/** Value an effect depends on, by its source and key. */
+type Dependency = [source: Observable, key: Event];
+
+/** Function which arranges for queued events to be flushed. */
+type Scheduler = (flush: () => void) => void;
+
+/** Where an error, caught on behalf of an observable, was thrown. */
+type Origin =
+  | 'effect'
+  | 'listener'
+  | 'factory'
+  | 'compute'
+  | 'init'
+  | 'validate';
+
+/**
+ * Error handler. Returning `false` indicates error was not handled.
+ *
+ * @param error - Error which was thrown.
+ * @param source - Observable for which error was caught, if known.
+ * @param key - Property or event related to the error, if any.
+ * @param origin - What type of callback threw the error.
+ */
+type OnError = (
+  error: unknown,
+  source: Observable | undefined,
+  key: Event | undefined,
+  origin: Origin
+) => boolean | void;
 
 declare namespace Observable {
-  export { Callback, Effect, Event, Notify, Observer, Signal };
+  export {
+    Callback,
+    Dependency,
+    Effect,
+    Event,
+    Notify,
+    Observer,
+    OnError,
+    Origin,
+    Scheduler,
+    Signal
+  };
 }
 
 interface Observable {
@@ -56,7 +103,49 @@ const PENDING = new WeakMap<Observable, Set<Signal>>();
 const PENDING_KEYS = new WeakMap<Observable, Set<string | number | symbol>>();
 
 /** Central event dispatch. Bunches all updates to occur at same time. */
-const DISPATCH = new Set<() => void>();
+const DISPATCH = new Map<() => void, [Observable | undefined, Origin]>();
+
+/** Computed values pending refresh. These are run before anything in dispatch. */
+const REFRESH = new Map<() => void, [Observable | undefined, Origin]>();
+
+/** Values accessed by an observer callback, by source. */
+const WATCHING = new WeakMap<Callback, Map<Observable, Set<Event>>>();
+
+/** State of a subscription, by function which releases it. */
+const SUBSCRIPTION = new WeakMap<
+  () => void,
+  { observer?: Callback; causes: Dependency[]; log?: Dependency[][] }
+>();
+
+/** Subscriptions which compute a property, by owner and key. */
+const COMPUTED = new WeakMap<Observable, Map<Event, () => void>>();
+
+/** Views of an observable, which share its listeners and events. */
+const SOURCE = new WeakMap<Observable, Observable>();
+
+/** Handlers for errors which would otherwise be logged. */
+const CATCH = new Set<OnError>();
+
+/** Built-in strategies for flushing dispatch. */
+const SCHEDULERS = {
+  timeout: (flush) => setTimeout(flush, 0),
+  microtask: (flush) => queueMicrotask(flush),
+  frame: (flush) =>
+    typeof requestAnimationFrame == 'function'
+      ? requestAnimationFrame(flush)
+      : setTimeout(flush, 16),
+  sync: (flush) => flush(),
+  manual: () => {}
+} satisfies Record<string, Scheduler>;
+
+/** Current strategy for flushing dispatch. */
+let SCHEDULER: Scheduler = SCHEDULERS.timeout;
+
+/** Flush requested from scheduler, if any. Will be ignored if another flush happens first. */
+let REQUESTED: (() => void) | undefined;
+
+/** Depth of synchronous emits in progress. Flush is not requested until outermost is complete. */
+let DEPTH = 0;
 
 const OBSERVER = new WeakMap<object, Observer>();
 
@@ -65,12 +154,20 @@ function observe<T extends Observable>(
   callback: Observable.Callback,
   required?: boolean
 ): T {
-  const watching = new Set<unknown>();
   const proxy = Object.create(object);
+  let sources = WATCHING.get(callback);
+  let watching = sources && sources.get(object);
 
-  listener(object, (key) => {
-    if (watching.has(key)) callback();
-  });
+  if (!sources) WATCHING.set(callback, (sources = new Map()));
+
+  if (!watching) {
+    const keys = (watching = new Set());
+
+    sources.set(object, keys);
+    listener(object, (key) => {
+      if (keys.has(key as Event)) callback(key as Event, object);
+    });
+  }
 
   OBSERVER.set(proxy, (key, value) => {
     if (value === undefined && required)
@@ -97,6 +194,8 @@ function listener<T extends Observable>(
   callback: Notify<T>,
   select?: Signal | Set<Signal>
 ) {
+  subject = (SOURCE.get(subject) || subject) as T;
+
   let listeners = LISTENERS.get(subject)!;
 
   if (!listeners)
@@ -151,17 +250,19 @@ function emit(state: Observable, key: Signal): void {
 
   PENDING.set(state, (pending = new Set(notReady ? [true, key] : [key])));
 
-  for (const key of pending)
-    for (const [callback, filter] of listeners)
-      if (!filter || filter.has(key)) {
-        const after = callback.call(state, key, state);
-
-        if (after) {
-          enqueue(after);
-        } else if (after === null) {
-          listeners.delete(callback);
+  batch(() => {
+    for (const key of pending)
+      for (const [callback, filter] of listeners)
+        if (!filter || filter.has(key)) {
+          const after = callback.call(state, key, state);
+
+          if (after) {
+            enqueue(after, state);
+          } else if (after === null) {
+            listeners.delete(callback);
+          }
         }
-      }
+  });
 
   if (key === null) listeners.clear();
 
@@ -173,37 +274,145 @@ function event(state: Observable, key?: Event | null, silent?: boolean) {
 
   if (!key) return emit(state, true);
 
-  let pending = PENDING_KEYS.get(state);
-
-  if (!pending) {
-    PENDING_KEYS.set(state, (pending = new Set()));
+  batch(() => {
+    let pending = PENDING_KEYS.get(state);
 
-    if (!silent)
+    if (!pending) {
+      PENDING_KEYS.set(state, (pending = new Set()));
       enqueue(() => {
         emit(state, false);
         PENDING_KEYS.delete(state);
-      });
+      }, state);
+    }
+
+    pending.add(key);
+
+    if (!silent) emit(state, key);
+  });
+}
+
+function enqueue(
+  eventHandler: () => void,
+  source?: Observable,
+  origin: Origin = 'listener'
+) {
+  (origin == 'compute' ? REFRESH : DISPATCH).set(eventHandler, [
+    source,
+    origin
+  ]);
+
+  if (!DEPTH) request();
+}
+
+/** Run a function, deferring request for flush until it (and any outer batch) is complete. */
+function batch(fn: () => void) {
+  DEPTH++;
+
+  try {
+    fn();
+  } finally {
+    if (!--DEPTH && (DISPATCH.size || REFRESH.size)) request();
   }
+}
+
+function request() {
+  if (REQUESTED) return;
 
-  pending.add(key);
+  const flushIfRequested = () => {
+    if (REQUESTED === flushIfRequested) flush();
+  };
 
-  if (!silent) emit(state, key);
+  SCHEDULER((REQUESTED = flushIfRequested));
 }
 
-function enqueue(eventHandler: () => void) {
-  if (!DISPATCH.size)
-    setTimeout(() => {
-      DISPATCH.forEach((event) => {
-        try {
-          event();
-        } catch (err) {
-          console.error(err);
-        }
-      });
-      DISPATCH.clear();
-    }, 0);
+/**
+ * Run all queued events and effects immediately.
+ * Has no effect if called while events are already being dispatched.
+ */
+function flush() {
+  if (DEPTH) return;
+
+  REQUESTED = undefined;
+
+  batch(() => {
+    settle();
+
+    for (const [event, [source, origin]] of DISPATCH) {
+      DISPATCH.delete(event);
+      run(event, source, origin);
+      settle();
+    }
+  });
+}
+
+/**
+ * Refresh computed values which are pending, in order they became stale.
+ * Stale values read during a refresh are settled first, so
+ * every computed value is current before any effect runs.
+ *
+ * @param event - Specific refresh to run, if pending, rather than all of them.
+ */
+function settle(event?: () => void) {
+  for (const [pending, [source, origin]] of REFRESH)
+    if (!event || event === pending) {
+      REFRESH.delete(pending);
+      run(pending, source, origin);
+    }
+}
+
+function run(
+  event: () => void,
+  source: Observable | undefined,
+  origin: Origin
+) {
+  try {
+    event();
+  } catch (err) {
+    if (!report(err, source, undefined, origin)) console.error(err);
+  }
+}
+
+/**
+ * Pass an error to registered handlers.
+ *
+ * @returns `true` if error was handled, otherwise caller should log it.
+ */
+function report(
+  error: unknown,
+  source: Observable | undefined,
+  key: Event | undefined,
+  origin: Origin
+) {
+  let handled = false;
+
+  for (const handler of CATCH)
+    try {
+      if (handler(error, source, key, origin) !== false) handled = true;
+    } catch (err) {
+      console.error(err);
+    }
+
+  return handled;
+}
+
+/**
+ * Set strategy used to flush queued events, effects and computed values.
+ *
+ * - `timeout` - (default) flush on next macrotask via `setTimeout`.
+ * - `microtask` - flush on next microtask, before control returns to event loop.
+ * - `frame` - flush before next repaint, via `requestAnimationFrame` where available.
+ * - `sync` - flush as soon as an update (and its synchronous listeners) is complete.
+ * - `manual` - never flush automatically; call `flush()` to do so.
+ *
+ * @param strategy - Name of built-in strategy, or a function which will arrange for `flush` to be called.
+ * @returns Previous scheduler, so it may be restored.
+ */
+function scheduler(strategy: Scheduler | keyof typeof SCHEDULERS) {
+  const previous = SCHEDULER;
+
+  SCHEDULER = typeof strategy == 'function' ? strategy : SCHEDULERS[strategy];
 
-  DISPATCH.add(eventHandler);
+  return previous;
 }
 
 /**
@@ -226,20 +435,74 @@ function watch<T extends Observable>(
   recursive?: boolean
 ): () => void;
 
-function watch<T extends Observable>(
+/**
+ * Decorate a method to run whenever given properties update.
+ * Method is called once, after all events in an update have settled.
+ *
+ * @param keys - Properties or events which will trigger method.
+ */
+function watch(
+  key: string,
+  ...keys: string[]
+): <T extends Observable>(
+  method: (this: T) => void,
+  context: ClassMethodDecoratorContext<T>
+) => void;
+
+function watch(
+  target: Observable | string,
+  ...args: [callback: Effect<any>, argument?: boolean] | string[]
+) {
+  if (typeof target == 'string') {
+    const keys = new Set([target, ...(args as string[])]);
+
+    return (method: Function, context: ClassMethodDecoratorContext<any>) => {
+      context.addInitializer(function () {
+        const run = () => {
+          method.call(this);
+        };
+
+        listener(this, () => run, keys);
+      });
+    };
+  }
+
+  const [callback, argument] = args as [Effect<any>, boolean?];
+
+  return subscribe(target, callback, argument, (invoke) =>
+    enqueue(invoke, target, 'effect')
+  );
+}
+
+/**
+ * Run a callback, and again whenever values it accessed change.
+ *
+ * @param schedule - Queue refresh of callback, where accessed values have changed.
+ */
+function subscribe<T extends Observable>(
   target: T,
   callback: Effect<T>,
-  argument?: boolean
+  argument: boolean | undefined,
+  schedule: (refresh: () => void) => void
 ) {
   let cause: readonly Event[];
   let unset: ((update: boolean | null) => void) | undefined;
   let reset: (() => void) | null | undefined;
 
+  const self = { causes: [] } as {
+    observer?: Callback;
+    causes: Dependency[];
+    log?: Dependency[][];
+  };
+
   function invoke() {
     let ignore: boolean = true;
 
-    function onUpdate(): void | PromiseLite<void> {
-      cause = [...(PENDING_KEYS.get(target) || [])];
+    function onUpdate(key?: Event, source?: Observable) {
+      cause = [...(PENDING_KEYS.get(SOURCE.get(target) || target) || [])];
+
+      if (self.log && self.observer === onUpdate && source)
+        self.causes.push([source, key!]);
 
       if (reset === null || ignore) return;
 
@@ -250,10 +513,17 @@ function watch<T extends Observable>(
         unset = undefined;
       }
 
-      enqueue(invoke);
+      schedule(invoke);
       return { then: enqueue };
     }
 
+    if (self.log && self.causes.length) {
+      self.log.push(self.causes);
+      self.causes = [];
+    }
+
+    self.observer = onUpdate;
+
     try {
       const exit = argument === false ? undefined : scope();
       const output = callback(
@@ -296,9 +566,87 @@ function watch<T extends Observable>(
     if (key === null && unset) unset(null);
   });
 
+  SUBSCRIPTION.set(cleanup, self);
+
   return cleanup;
 }
 
+function subscription(from: Function | Observable, key?: Event) {
+  let release = from as () => void;
+
+  if (key !== undefined) {
+    const computed = COMPUTED.get(from as Observable);
+    const found = computed && computed.get(key);
+
+    if (!found)
+      throw new Error(
+        `${from}.${String(key)} is not an active computed value.`
+      );
+
+    release = found;
+  }
+
+  const self = SUBSCRIPTION.get(release);
+
+  if (!self) throw new Error(`Function provided is not an effect.`);
+
+  return self;
+}
+
+/**
+ * Get values an effect or computed property currently depends on.
+ * Use to find where an effect is subscribed to more than it needs.
+ *
+ * @param effect - Function returned by `watch` or `get(effect)`, which would release it.
+ * @returns Source and key of each value which will cause a refresh when updated.
+ */
+function dependencies(effect: () => void): Dependency[];
+
+/**
+ * Get values a computed property currently depends on.
+ *
+ * @param source - Owner of computed property.
+ * @param key - Computed property.
+ * @returns Source and key of each value which will cause a refresh when updated.
+ */
+function dependencies(source: Observable, key: Event): Dependency[];
+
+function dependencies(from: Function | Observable, key?: Event) {
+  const { observer } = subscription(from, key);
+  const sources = observer && WATCHING.get(observer);
+  const output: Dependency[] = [];
+
+  if (sources)
+    sources.forEach((keys, source) => {
+      keys.forEach((key) => output.push([source, key]));
+    });
+
+  return output;
+}
+
+/**
+ * Record what causes an effect or computed property to refresh, from now on.
+ *
+ * @param effect - Function returned by `watch` or `get(effect)`, which would release it.
+ * @returns Log to which values, that updated and so caused a refresh, are added each time one occurs.
+ */
+function trace(effect: () => void): Dependency[][];
+
+/**
+ * Record what causes a computed property to refresh, from now on.
+ *
+ * @param source - Owner of computed property.
+ * @param key - Computed property.
+ * @returns Log to which values, that updated and so caused a refresh, are added each time one occurs.
+ */
+function trace(source: Observable, key: Event): Dependency[][];
+
+function trace(from: Function | Observable, key?: Event) {
+  const self = subscription(from, key);
+
+  return self.log || (self.log = []);
+}
+
 let EffectContext: Set<() => void> | undefined;
 
 function scope() {
@@ -312,12 +660,23 @@ function scope() {
 }
 
 export {
+  CATCH,
+  COMPUTED,
+  dependencies,
   listener,
   event,
+  flush,
   Observable,
   observe,
   observing,
   pending,
+  report,
+  scheduler,
+  enqueue,
+  settle,
+  SOURCE,
+  subscribe,
+  trace,
   watch,
   scope
 };
@@ -0,0 +1,428 @@
+import { get } from './instruction/get';
+import { ref } from './instruction/ref';
+import { applyPatch, patch } from './patch';
+import { State } from './state';
+import { describe, expect, it, vi } from '../vitest';
+
+describe('patch', () => {
+  it('will emit replace operations', async () => {
+    class Test extends State {
+      foo = 'foo';
+      bar = 'bar';
+    }
+
+    const test = Test.new();
+    const mock = vi.fn();
+
+    patch(test, mock);
+
+    test.foo = 'baz';
+    test.bar = 'qux';
+
+    await expect(test).toHaveUpdated();
+
+    expect(mock).toBeCalledTimes(1);
+    expect(mock).toBeCalledWith([
+      { op: 'replace', path: '/foo', value: 'baz' },
+      { op: 'replace', path: '/bar', value: 'qux' }
+    ]);
+  });
+
+  it('will emit add and remove operations', async () => {
+    class Test extends State {
+      foo?: string = undefined;
+    }
+
+    const test = Test.new();
+    const mock = vi.fn();
+
+    patch(test, mock);
+
+    test.foo = 'foo';
+    await expect(test).toHaveUpdated();
+
+    test.foo = undefined;
+    await expect(test).toHaveUpdated();
+
+    test.foo = undefined;
+    test.set('foo');
+    await expect(test).toHaveUpdated();
+
+    expect(mock.mock.calls).toEqual([
+      [[{ op: 'add', path: '/foo', value: 'foo' }]],
+      [[{ op: 'remove', path: '/foo' }]]
+    ]);
+  });
+
+  it('will ignore events which are not properties', async () => {
+    class Test extends State {
+      foo = 'foo';
+    }
+
+    const test = Test.new();
+    const mock = vi.fn();
+
+    patch(test, mock);
+
+    test.set('event');
+    test.set(Symbol('event'));
+
+    await expect(test).toHaveUpdated();
+
+    expect(mock).not.toBeCalled();
+  });
+
+  it('will escape keys in path', async () => {
+    class Test extends State {
+      'foo/bar~' = 'foo';
+    }
+
+    const test = Test.new();
+    const mock = vi.fn();
+
+    patch(test, mock);
+
+    test['foo/bar~'] = 'bar';
+
+    await expect(test).toHaveUpdated();
+
+    expect(mock).toBeCalledWith([
+      { op: 'replace', path: '/foo~1bar~0', value: 'bar' }
+    ]);
+  });
+
+  it('will export exotic values', async () => {
+    class Test extends State {
+      element = ref<string>();
+    }
+
+    const test = Test.new();
+    const mock = vi.fn();
+
+    patch(test, mock);
+
+    test.element.current = 'foo';
+
+    await expect(test).toHaveUpdated();
+
+    expect(mock).toBeCalledWith([
+      { op: 'replace', path: '/element', value: 'foo' }
+    ]);
+  });
+
+  it('will batch updates from child states', async () => {
+    class Child extends State {
+      value = 0;
+    }
+
+    class Test extends State {
+      value = 0;
+      child = new Child();
+    }
+
+    const test = Test.new();
+    const mock = vi.fn();
+
+    patch(test, mock);
+
+    test.value = 1;
+    test.child.value = 1;
+
+    await expect(test).toHaveUpdated();
+
+    expect(mock).toBeCalledTimes(1);
+    expect(mock).toBeCalledWith([
+      { op: 'replace', path: '/value', value: 1 },
+      { op: 'replace', path: '/child/value', value: 1 }
+    ]);
+  });
+
+  it('will follow replaced child state', async () => {
+    class Child extends State {
+      value = 0;
+    }
+
+    class Test extends State {
+      child = new Child();
+    }
+
+    const test = Test.new();
+    const previous = test.child;
+    const mock = vi.fn();
+
+    patch(test, mock);
+
+    test.child = new Child();
+
+    await expect(test).toHaveUpdated();
+
+    expect(mock).toBeCalledWith([
+      { op: 'replace', path: '/child', value: { value: 0 } }
+    ]);
+
+    previous.value = 1;
+    test.child.value = 2;
+
+    await expect(test.child).toHaveUpdated();
+
+    expect(mock).toBeCalledTimes(2);
+    expect(mock).toBeCalledWith([
+      { op: 'replace', path: '/child/value', value: 2 }
+    ]);
+  });
+
+  it('will keep subscription to same child state', async () => {
+    class Child extends State {
+      value = 0;
+    }
+
+    class Test extends State {
+      child = new Child();
+    }
+
+    const test = Test.new();
+    const mock = vi.fn();
+
+    patch(test, mock);
+
+    test.set('child');
+    await expect(test).toHaveUpdated();
+
+    test.child.value = 1;
+    await expect(test.child).toHaveUpdated();
+
+    expect(mock).toBeCalledTimes(2);
+    expect(mock).toHaveBeenLastCalledWith([
+      { op: 'replace', path: '/child/value', value: 1 }
+    ]);
+  });
+
+  it('will not follow state it does not own', async () => {
+    class Parent extends State {
+      child = new Child();
+    }
+
+    class Child extends State {
+      parent = get(Parent);
+      value = 0;
+    }
+
+    const parent = Parent.new();
+    const mock = vi.fn();
+
+    patch(parent.child, mock);
+
+    parent.child.value = 1;
+
+    await expect(parent.child).toHaveUpdated();
+
+    expect(mock).toBeCalledWith([{ op: 'replace', path: '/value', value: 1 }]);
+  });
+
+  it('will subscribe when state is ready', async () => {
+    class Child extends State {
+      value = 0;
+    }
+
+    class Test extends State {
+      child = new Child();
+    }
+
+    const test = new Test();
+    const mock = vi.fn();
+
+    patch(test, mock);
+    test.set();
+
+    test.child.value = 1;
+
+    await expect(test.child).toHaveUpdated();
+
+    expect(mock).toBeCalledWith([
+      { op: 'replace', path: '/child/value', value: 1 }
+    ]);
+  });
+
+  it('will stop on release', async () => {
+    class Child extends State {
+      value = 0;
+    }
+
+    class Test extends State {
+      value = 0;
+      child = new Child();
+    }
+
+    const test = Test.new();
+    const mock = vi.fn();
+    const release = patch(test, mock);
+
+    release();
+
+    test.value = 1;
+    test.child.value = 1;
+
+    await expect(test).toHaveUpdated();
+
+    expect(mock).not.toBeCalled();
+  });
+
+  it('will stop when destroyed', async () => {
+    class Test extends State {
+      value = 0;
+    }
+
+    const test = Test.new();
+    const mock = vi.fn();
+
+    patch(test, mock);
+    test.set(null);
+
+    expect(mock).not.toBeCalled();
+  });
+});
+
+describe('applyPatch', () => {
+  class Child extends State {
+    value = 0;
+    list = [1, 2, 3];
+  }
+
+  class Test extends State {
+    foo = 'foo';
+    bar?: string = undefined;
+    data = { a: 1, b: { c: 2 } } as Record<string, any>;
+    child = new Child();
+  }
+
+  it('will replace values', async () => {
+    const test = Test.new();
+
+    applyPatch(test, [{ op: 'replace', path: '/foo', value: 'bar' }]);
+
+    expect(test.foo).toBe('bar');
+
+    await expect(test).toHaveUpdated('foo');
+  });
+
+  it('will add and remove values', () => {
+    const test = Test.new();
+
+    applyPatch(test, [{ op: 'add', path: '/bar', value: 'bar' }]);
+    expect(test.bar).toBe('bar');
+
+    applyPatch(test, [{ op: 'remove', path: '/bar' }]);
+    expect(test.bar).toBeUndefined();
+  });
+
+  it('will route to child state', async () => {
+    const test = Test.new();
+    const { child } = test;
+
+    applyPatch(test, [{ op: 'replace', path: '/child/value', value: 1 }]);
+
+    expect(test.child).toBe(child);
+    expect(child.value).toBe(1);
+
+    await expect(child).toHaveUpdated('value');
+  });
+
+  it('will restore child state in place', () => {
+    const test = Test.new();
+    const { child } = test;
+
+    applyPatch(test, [
+      { op: 'replace', path: '/child', value: { value: 2, list: [] } }
+    ]);
+
+    expect(test.child).toBe(child);
+    expect(child.value).toBe(2);
+    expect(child.list).toEqual([]);
+  });
+
+  it('will update nested values by copy', () => {
+    const test = Test.new();
+    const { data } = test;
+
+    applyPatch(test, [
+      { op: 'replace', path: '/data/b/c', value: 3 },
+      { op: 'add', path: '/data/d', value: 4 },
+      { op: 'remove', path: '/data/a' }
+    ]);
+
+    expect(test.data).not.toBe(data);
+    expect(data).toEqual({ a: 1, b: { c: 2 } });
+    expect(test.data).toEqual({ b: { c: 3 }, d: 4 });
+  });
+
+  it('will update arrays', () => {
+    const test = Test.new();
+
+    applyPatch(test, [
+      { op: 'add', path: '/child/list/0', value: 0 },
+      { op: 'add', path: '/child/list/-', value: 4 },
+      { op: 'replace', path: '/child/list/1', value: 10 },
+      { op: 'remove', path: '/child/list/2' }
+    ]);
+
+    expect(test.child.list).toEqual([0, 10, 3, 4]);
+  });
+
+  it('will copy and move values', () => {
+    const test = Test.new();
+
+    applyPatch(test, [
+      { op: 'copy', from: '/data/b', path: '/data/e' },
+      { op: 'move', from: '/foo', path: '/bar' }
+    ]);
+
+    expect(test.data).toEqual({ a: 1, b: { c: 2 }, e: { c: 2 } });
+    expect(test.foo).toBeUndefined();
+    expect(test.bar).toBe('foo');
+  });
+
+  it('will test values', () => {
+    const test = Test.new('ID');
+
+    const pass = () =>
+      applyPatch(test, [
+        { op: 'test', path: '/foo', value: 'foo' },
+        { op: 'test', path: '/data', value: { a: 1, b: { c: 2 } } },
+        { op: 'test', path: '/child/list', value: [1, 2, 3] }
+      ]);
+
+    const fail = (value: unknown) => () =>
+      applyPatch(test, [{ op: 'test', path: '/data', value }]);
+
+    expect(pass).not.toThrow();
+    expect(fail({ a: 1, b: { c: 3 } })).toThrow(
+      'Patch test failed for ID at "/data".'
+    );
+    expect(fail({ a: 1 })).toThrow();
+    expect(fail([1, 2])).toThrow();
+    expect(fail(null)).toThrow();
+  });
+
+  it('will throw on invalid path', () => {
+    const test = Test.new();
+    const attempt = () =>
+      applyPatch(test, [{ op: 'replace', path: 'foo', value: 'bar' }]);
+
+    expect(attempt).toThrow('Invalid patch path "foo".');
+  });
+
+  it('will apply patches from another state', async () => {
+    const source = Test.new();
+    const target = Test.new();
+
+    patch(source, (ops) => applyPatch(target, ops));
+
+    source.foo = 'bar';
+    source.child.value = 3;
+    source.data = { a: 2 };
+
+    await expect(source).toHaveUpdated();
+
+    expect(target.get()).toEqual(source.get());
+  });
+});
@@ -0,0 +1,214 @@
+import { deep } from './equals';
+import { listener } from './observable';
+import { PARENT, State, STATE, update } from './state';
+
+declare namespace patch {
+  /** A single JSON Patch (RFC 6902) operation. */
+  type Operation =
+    | { op: 'add' | 'replace' | 'test'; path: string; value: unknown }
+    | { op: 'remove'; path: string }
+    | { op: 'move' | 'copy'; from: string; path: string };
+
+  type Callback = (operations: Operation[]) => void;
+}
+
+/**
+ * Subscribe to a state and its child states, receiving JSON Patch operations.
+ * Operations are batched and delivered once per completed update.
+ *
+ * @param state - State to observe.
+ * @param callback - Called with operations for each batch of updates.
+ * @returns Function to stop receiving patches.
+ */
+function patch<T extends State>(state: T, callback: patch.Callback) {
+  const batch: patch.Operation[] = [];
+
+  return subscribe(state, '', (ops) => {
+    const first = !batch.length;
+
+    batch.push(...ops);
+
+    if (first) return () => callback(batch.splice(0));
+  });
+}
+
+function subscribe(
+  state: State,
+  path: string,
+  push: (ops: patch.Operation[]) => (() => void) | void
+) {
+  const children = new Map<string, [State, () => void]>();
+  const changed = new Set<string>();
+  const defined = new Set<string>();
+
+  function connect(key: string, value: unknown) {
+    const child = children.get(key);
+
+    if (child && child[0] === value) return;
+
+    if (child) {
+      child[1]();
+      children.delete(key);
+    }
+
+    if (value instanceof State && PARENT.get(value) === state)
+      children.set(key, [value, subscribe(value, pointer(key), push)]);
+  }
+
+  function pointer(key: string) {
+    return path + '/' + key.replace(/~/g, '~0').replace(/\//g, '~1');
+  }
+
+  function release() {
+    children.forEach(([_, release]) => release());
+    children.clear();
+    done();
+  }
+
+  const done = listener(state, (key) => {
+    if (key === true) {
+      for (const [key, value] of state)
+        if (value !== undefined) {
+          defined.add(key);
+          connect(key, value);
+        }
+
+      return;
+    }
+
+    if (key === null) {
+      release();
+      return;
+    }
+
+    if (key !== false) {
+      if (typeof key != 'symbol') changed.add(String(key));
+      return;
+    }
+
+    const store = STATE.get(state)!;
+    const values = state.get() as Record<string, unknown>;
+    const ops: patch.Operation[] = [];
+
+    for (const key of changed) {
+      const value = values[key];
+      const path = pointer(key);
+
+      if (!(key in store)) continue;
+
+      connect(key, store[key]);
+
+      if (value !== undefined) {
+        ops.push({ op: defined.has(key) ? 'replace' : 'add', path, value });
+        defined.add(key);
+      } else if (defined.delete(key)) {
+        ops.push({ op: 'remove', path });
+      }
+    }
+
+    changed.clear();
+
+    if (ops.length) return push(ops);
+  });
+
+  return release;
+}
+
+/**
+ * Apply JSON Patch operations to a state.
+ * Each operation is routed to the child state which owns the target property.
+ *
+ * @param state - State to apply operations to.
+ * @param operations - List of operations, as produced by `patch()`.
+ */
+function applyPatch(state: State, operations: patch.Operation[]) {
+  for (const op of operations)
+    switch (op.op) {
+      case 'test':
+        if (!deep(read(state, op.path), op.value))
+          throw new Error(`Patch test failed for ${state} at "${op.path}".`);
+        break;
+
+      case 'copy':
+        write(state, op.path, 'add', read(state, op.from));
+        break;
+
+      case 'move': {
+        const value = read(state, op.from);
+        write(state, op.from, 'remove');
+        write(state, op.path, 'add', value);
+        break;
+      }
+
+      default:
+        write(state, op.path, op.op, 'value' in op ? op.value : undefined);
+    }
+}
+
+function parse(path: string) {
+  if (path[0] !== '/') throw new Error(`Invalid patch path "${path}".`);
+
+  return path
+    .slice(1)
+    .split('/')
+    .map((key) => key.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function resolve(state: State, path: string) {
+  const keys = parse(path);
+  let key = keys.shift()!;
+  let value;
+
+  while (keys.length && (value = STATE.get(state)![key]) instanceof State) {
+    state = value;
+    key = keys.shift()!;
+  }
+
+  return [state, key, keys] as const;
+}
+
+function read(state: State, path: string) {
+  const [target, key, keys] = resolve(state, path);
+  let value: any = target.get()[key as State.Field<State>];
+
+  for (const key of keys) value = value[key];
+
+  return value;
+}
+
+function write(
+  state: State,
+  path: string,
+  mode: 'add' | 'replace' | 'remove',
+  value?: unknown
+) {
+  const [target, key, keys] = resolve(state, path);
+  const current = STATE.get(target)![key];
+
+  if (keys.length) update(target, key, edit(current, keys, mode, value));
+  else if (current instanceof State && mode != 'remove')
+    current.set(value as State.Assign<State>);
+  else update(target, key, value);
+}
+
+/** Copy object or array along path, applying operation at the end. */
+function edit(
+  from: any,
+  [key, ...rest]: string[],
+  mode: 'add' | 'replace' | 'remove',
+  value: unknown
+): any {
+  const copy = Array.isArray(from) ? [...from] : { ...from };
+
+  if (rest.length) copy[key] = edit(from[key], rest, mode, value);
+  else if (!Array.isArray(copy))
+    if (mode == 'remove') delete copy[key];
+    else copy[key] = value;
+  else if (mode == 'remove') copy.splice(Number(key), 1);
+  else if (key == '-') copy.push(value);
+  else copy.splice(Number(key), mode == 'add' ? 0 : 1, value);
+
+  return copy;
+}
+
+export { patch, applyPatch };
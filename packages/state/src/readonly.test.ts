@@ -0,0 +1,161 @@
+import { watch } from './observable';
+import { readonly } from './readonly';
+import { State } from './state';
+import { expect, it, vi } from '../vitest';
+
+class Child extends State {
+  value = 'foo';
+}
+
+class Test extends State {
+  count = 0;
+  child = new Child();
+
+  increment() {
+    this.count++;
+  }
+}
+
+it('will read values of state', () => {
+  const test = Test.new();
+  const view = readonly(test);
+
+  expect(view.count).toBe(0);
+  expect(view).toBeInstanceOf(Test);
+  expect(String(view)).toBe(String(test));
+  expect(view.get()).toEqual({ count: 0, child: { value: 'foo' } });
+});
+
+it('will return same view for a state', () => {
+  const test = Test.new();
+
+  expect(readonly(test)).toBe(readonly(test));
+});
+
+it('will throw on assignment', () => {
+  const test = Test.new();
+  const view = readonly(test);
+
+  // @ts-expect-error
+  expect(() => (view.count = 1)).toThrow(`${test}.count is read-only.`);
+  expect(() => delete (view as any).count).toThrow(
+    `${test}.count is read-only.`
+  );
+  expect(() => Object.defineProperty(view, 'count', { value: 1 })).toThrow(
+    `${test}.count is read-only.`
+  );
+  expect(test.count).toBe(0);
+});
+
+it('will throw on assignment to child state', () => {
+  const test = Test.new();
+  const view = readonly(test);
+
+  // @ts-expect-error
+  expect(() => (view.child.value = 'bar')).toThrow(
+    `${test.child}.value is read-only.`
+  );
+});
+
+it('will be read-only via is', () => {
+  const test = Test.new();
+  const view = readonly(test);
+
+  expect(view.is).toBe(view);
+  // @ts-expect-error
+  expect(() => (view.is.count = 1)).toThrow(`${test}.count is read-only.`);
+});
+
+it('will update state via methods', async () => {
+  const test = Test.new();
+  const view = readonly(test);
+
+  view.increment();
+
+  expect(test.count).toBe(1);
+  await expect(test).toHaveUpdated('count');
+});
+
+it('will throw on set with values', () => {
+  const test = Test.new();
+  const view = readonly(test);
+
+  expect(() => view.set({ count: 1 })).toThrow(`${test} is read-only.`);
+  expect(() => view.set('count')).toThrow(`${test} is read-only.`);
+  expect(() => view.set(null)).toThrow(`${test} is read-only.`);
+  expect(test.get(null)).toBe(false);
+});
+
+it('will allow set with callback', async () => {
+  const test = Test.new();
+  const view = readonly(test);
+  const callback = vi.fn();
+
+  view.set(callback);
+  test.count = 1;
+
+  expect(callback).toBeCalledWith('count', test);
+  await expect(view.set()).resolves.toEqual(['count']);
+});
+
+it('will get value and signal', () => {
+  const test = Test.new();
+  const view = readonly(test);
+
+  expect(view.get('count')).toBe(0);
+  expect(view.get(AbortSignal)).toBe(test.get(AbortSignal));
+});
+
+it('will subscribe with watch', async () => {
+  const test = Test.new();
+  const view = readonly(test);
+  const effect = vi.fn();
+
+  watch(view, (current, changed) => {
+    effect(current.count, changed);
+
+    expect(() => ((current as Test).count = 2)).toThrow();
+  });
+
+  test.count = 1;
+
+  await expect(test).toHaveUpdated('count');
+
+  expect(effect).toBeCalledTimes(2);
+  expect(effect).toHaveBeenLastCalledWith(1, ['count']);
+});
+
+it('will subscribe with effect', async () => {
+  const test = Test.new();
+  const view = readonly(test);
+  const effect = vi.fn();
+
+  view.get((current) => {
+    effect(current.child.value);
+
+    expect(() => ((current.child as Child).value = 'baz')).toThrow();
+  });
+
+  test.child.value = 'bar';
+
+  await expect(test.child).toHaveUpdated('value');
+
+  expect(effect).toBeCalledTimes(2);
+  expect(effect).toHaveBeenLastCalledWith('bar');
+});
+
+it('will not subscribe on read outside effect', async () => {
+  const test = Test.new();
+  const view = readonly(test);
+  const effect = vi.fn();
+
+  view.get((current) => {
+    effect(current.is.count);
+  });
+
+  test.count = 1;
+
+  await expect(test).toHaveUpdated('count');
+
+  expect(effect).toBeCalledTimes(1);
+});
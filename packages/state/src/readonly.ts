@@ -0,0 +1,81 @@
+import { Observable, SOURCE } from './observable';
+import { effect, State } from './state';
+
+/** Read-only view for a given state, or proxy of one. Created as needed. */
+const VIEW = new WeakMap<State, State>();
+
+/**
+ * Create a read-only view of a state.
+ *
+ * Assigning a property of the view will throw, however methods remain bound
+ * to the original instance and may update it as usual.
+ * Child states, and `is`, accessed through a view are read-only as well.
+ *
+ * Views may be used with `watch` or `get(effect)`, where
+ * properties accessed will subscribe as they normally would.
+ *
+ * @param state - Instance of State to create a view of.
+ * @returns View of state. The same view is returned for a given state.
+ */
+function readonly<T extends State>(state: T): State.ReadOnly<T> {
+  let view = VIEW.get(state) as T | undefined;
+
+  if (view) return view as State.ReadOnly<T>;
+
+  const { is } = state;
+
+  function reject(key?: string | symbol): never {
+    throw new Error(
+      key === undefined
+        ? `${is} is read-only.`
+        : `${is}.${String(key)} is read-only.`
+    );
+  }
+
+  function get(arg1?: unknown, arg2?: unknown) {
+    if (typeof arg1 == 'function' && arg1 !== AbortSignal && arg2 === undefined)
+      return effect(readonly(is) as T, arg1 as State.Effect<T>);
+
+    return is.get(arg1 as any, arg2 as any);
+  }
+
+  function set(arg1?: unknown, arg2?: unknown) {
+    if (arg1 !== undefined && typeof arg1 != 'function') reject();
+
+    return is.set(arg1 as any, arg2 as any);
+  }
+
+  function observe(callback: Observable.Callback, required?: boolean) {
+    return readonly(is[Observable](callback, required) as T);
+  }
+
+  VIEW.set(
+    state,
+    // Target inherits from state, as its own `is` could not be replaced by a view.
+    (view = new Proxy(Object.create(state) as T, {
+      get(_, key) {
+        if (key === 'get') return get;
+        if (key === 'set') return set;
+        if (key === Observable) return observe;
+        if (key === 'is') return readonly(is);
+
+        const value = state[key as keyof T];
+
+        // Builtins such as `toString` expect `is` to be the real instance.
+        if (typeof value == 'function' && key in State.prototype)
+          return value.bind(state);
+
+        return value instanceof State ? readonly(value) : value;
+      },
+      set: (_, key) => reject(key),
+      defineProperty: (_, key) => reject(key),
+      deleteProperty: (_, key) => reject(key)
+    }))
+  );
+
+  SOURCE.set(view, is);
+
+  return view as State.ReadOnly<T>;
+}
+
+export { readonly };
@@ -0,0 +1,262 @@
+import { afterEach, expect, it, vi } from '../vitest';
+import { connect, expose } from './remote';
+import { State } from './state';
+
+const ports = new Set<MessagePort>();
+
+afterEach(() => {
+  ports.forEach((port) => port.close());
+  ports.clear();
+});
+
+function channel() {
+  const { port1, port2 } = new MessageChannel();
+
+  ports.add(port1);
+  ports.add(port2);
+
+  return [port1, port2] as const;
+}
+
+function delivery() {
+  return new Promise((res) => setTimeout(res, 10));
+}
+
+class Child extends State {
+  value = 1;
+}
+
+class Test extends State {
+  foo = 'foo';
+  bar = 'bar';
+  child = new Child();
+
+  setFoo(value: string) {
+    this.foo = value;
+    return value.length;
+  }
+
+  async fail() {
+    throw new Error('Failed.');
+  }
+
+  getCallback() {
+    return () => {};
+  }
+
+  throwCallback() {
+    throw () => {};
+  }
+}
+
+it('will mirror values of state', async () => {
+  const [host, client] = channel();
+  const test = Test.new('ID');
+
+  expose(test, host);
+
+  const mirror = await connect(Test, client);
+
+  expect(String(mirror)).toBe('ID');
+  expect(mirror.get()).toEqual({
+    foo: 'foo',
+    bar: 'bar',
+    child: { value: 1 }
+  });
+});
+
+it('will update mirror once per update', async () => {
+  const [host, client] = channel();
+  const test = Test.new();
+
+  expose(test, host);
+
+  const mirror = await connect(Test, client);
+  const effect = vi.fn();
+
+  mirror.get(($) => {
+    effect($.foo, $.bar);
+  });
+
+  test.foo = 'baz';
+  test.bar = 'qux';
+
+  await expect(test).toHaveUpdated();
+  await expect(mirror).toUpdate();
+
+  expect(mirror.foo).toBe('baz');
+  expect(mirror.bar).toBe('qux');
+  expect(effect).toBeCalledTimes(2);
+  expect(effect).toHaveBeenLastCalledWith('baz', 'qux');
+});
+
+it('will add values not available before', async () => {
+  const [host, client] = channel();
+  const test = Test.new();
+
+  expose(test, host);
+
+  const mirror = await connect(Test, client);
+
+  test.set('late', 'value', true);
+  test.set('late', 'value');
+
+  await expect(test).toHaveUpdated();
+  await expect(mirror).toUpdate();
+
+  expect((mirror as any).late).toBe('value');
+});
+
+it('will ignore events which are not values', async () => {
+  const [host, client] = channel();
+  const test = Test.new();
+
+  expose(test, host);
+
+  const mirror = await connect(Test, client);
+
+  test.set('custom');
+  await expect(test).toHaveUpdated();
+  await delivery();
+
+  expect(mirror.get()).not.toHaveProperty('custom');
+});
+
+it('will forward method calls', async () => {
+  const [host, client] = channel();
+  const test = Test.new();
+
+  expose(test, host);
+
+  const mirror = await connect(Test, client);
+  const result = mirror.setFoo('hello');
+
+  expect(result).toBeInstanceOf(Promise);
+  await expect(result).resolves.toBe(5);
+
+  expect(test.foo).toBe('hello');
+
+  await delivery();
+
+  expect(mirror.foo).toBe('hello');
+});
+
+it('will reject with error from method', async () => {
+  const [host, client] = channel();
+  const test = Test.new();
+
+  expose(test, host);
+
+  const mirror = await connect(Test, client);
+
+  await expect(mirror.fail()).rejects.toThrow('Failed.');
+});
+
+it('will reject if output cannot be sent', async () => {
+  const [host, client] = channel();
+  const test = Test.new();
+
+  expose(test, host);
+
+  const mirror = await connect(Test, client);
+
+  await expect(mirror.getCallback()).rejects.toThrow('could not be cloned');
+  await expect(mirror.throwCallback()).rejects.toThrow('could not be cloned');
+});
+
+it('will reject call to unknown method', async () => {
+  const [host, client] = channel();
+  const test = Test.new('ID');
+  const reply = vi.fn();
+
+  expose(test, host);
+  client.onmessage = ({ data }) => reply(data);
+  client.postMessage({ type: 'call', call: '1', method: 'foo', args: [] });
+
+  await delivery();
+
+  expect(reply).toBeCalledWith({
+    type: 'throw',
+    call: '1',
+    error: new Error('ID.foo is not a method.')
+  });
+});
+
+it('will destroy mirror with state', async () => {
+  const [host, client] = channel();
+  const test = Test.new();
+
+  expose(test, host);
+
+  const mirror = await connect(Test, client);
+
+  test.set(null);
+  await delivery();
+
+  expect(mirror.get(null)).toBe(true);
+});
+
+it('will reject pending calls if destroyed', async () => {
+  const [host, client] = channel();
+  const test = Test.new();
+
+  expose(test, host);
+
+  const mirror = await connect(Test, client);
+  const result = mirror.setFoo('hello');
+
+  mirror.set(null);
+
+  await expect(result).rejects.toThrow(`${mirror} is destroyed.`);
+});
+
+it('will stop exposing state', async () => {
+  const [host, client] = channel();
+  const test = Test.new();
+  const stop = expose(test, host);
+  const mirror = await connect(Test, client);
+
+  stop();
+  test.foo = 'baz';
+
+  await expect(test).toHaveUpdated();
+  await delivery();
+
+  expect(mirror.foo).toBe('foo');
+});
+
+it('will ignore messages meant for other side', async () => {
+  const [host, client] = channel();
+  const test = Test.new();
+
+  expose(test, host);
+
+  const mirror = await connect(Test, client);
+
+  host.postMessage({ type: 'call', call: '1', method: 'setFoo', args: [] });
+  host.postMessage({ type: 'return', call: '1', value: 'foo' });
+  client.postMessage({ type: 'update', values: { foo: 'baz' } });
+  await delivery();
+
+  expect(test.foo).toBe('foo');
+  expect(mirror.foo).toBe('foo');
+});
+
+it('will accept port which starts automatically', async () => {
+  const [host, client] = channel().map((port) => ({
+    postMessage: (message: any) => port.postMessage(message),
+    addEventListener: (type: 'message', listener: (event: any) => void) => {
+      port.addEventListener(type, listener);
+      port.start();
+    },
+    removeEventListener: (type: 'message', listener: (event: any) => void) => {
+      port.removeEventListener(type, listener);
+    }
+  }));
+
+  expose(Test.new(), host);
+
+  const mirror = await connect(Test, client);
+
+  expect(mirror.foo).toBe('foo');
+});
@@ -0,0 +1,210 @@
+import { listener, pending } from './observable';
+import { METHODS, State, STATE, uid } from './state';
+
+declare namespace expose {
+  /** Either end of a `MessageChannel`, a `Worker`, or the global scope inside one. */
+  interface Port {
+    postMessage(message: Message): void;
+    addEventListener(
+      type: 'message',
+      listener: (event: MessageEvent<Message>) => void
+    ): void;
+    removeEventListener(
+      type: 'message',
+      listener: (event: MessageEvent<Message>) => void
+    ): void;
+    start?(): void;
+  }
+
+  type Message =
+    /** Sent by host when exposed, with current values and methods which may be called. */
+    | { type: 'init'; id: string; values: Values; methods: string[] }
+    /** Sent by host when an update completes, with values which changed. */
+    | { type: 'update'; values: Values }
+    /** Sent by host when state is destroyed. */
+    | { type: 'destroy' }
+    /** Sent by client to call a method of host state. */
+    | { type: 'call'; call: string; method: string; args: unknown[] }
+    /** Sent by host when a method call succeeds. */
+    | { type: 'return'; call: string; value: unknown }
+    /** Sent by host when a method call fails. */
+    | { type: 'throw'; call: string; error: unknown };
+
+  type Values = { [key: string]: unknown };
+}
+
+declare namespace connect {
+  /** State mirrored from elsewhere. Methods of the original will return a promise. */
+  type Mirror<T extends State> = {
+    [K in keyof T]: K extends keyof State
+      ? T[K]
+      : T[K] extends (...args: infer A) => infer R
+        ? (...args: A) => Promise<Awaited<R>>
+        : T[K];
+  };
+}
+
+class Remote extends State {}
+
+/**
+ * Expose a state over a message port, so it may be mirrored elsewhere using `connect`.
+ * Values are sent in the same format as `get()`, once for each update which completes.
+ *
+ * @param state - State to expose.
+ * @param port - Port to send updates and receive method calls over.
+ * @returns Function to stop exposing state.
+ */
+function expose(state: State, port: expose.Port) {
+  const methods = METHODS.get(state.constructor)!;
+
+  const release = listener(state, (key) => {
+    if (key === null) {
+      port.postMessage({ type: 'destroy' });
+      done();
+    } else if (key === false) {
+      const current = state.get() as expose.Values;
+      const values: expose.Values = {};
+
+      for (const key of pending(state))
+        if (typeof key == 'string' && key in current)
+          values[key] = current[key];
+
+      port.postMessage({ type: 'update', values });
+    }
+  });
+
+  function reply(call: string, fn: () => unknown) {
+    function send(message: expose.Message) {
+      try {
+        port.postMessage(message);
+      } catch (err) {
+        // Output may not be cloneable, so send reason as a plain error instead.
+        port.postMessage({
+          type: 'throw',
+          call,
+          error: new Error((err as Error).message)
+        });
+      }
+    }
+
+    new Promise((resolve) => resolve(fn())).then(
+      (value) => send({ type: 'return', call, value }),
+      (error) => send({ type: 'throw', call, error })
+    );
+  }
+
+  function receive({ data }: MessageEvent<expose.Message>) {
+    if (data.type != 'call') return;
+
+    const { call, method, args } = data;
+
+    reply(call, () => {
+      if (!methods.has(method))
+        throw new Error(`${state}.${method} is not a method.`);
+
+      return (state as any)[method](...args);
+    });
+  }
+
+  function done() {
+    port.removeEventListener('message', receive);
+    release();
+  }
+
+  port.addEventListener('message', receive);
+  port.postMessage({
+    type: 'init',
+    id: String(state),
+    values: state.get() as expose.Values,
+    methods: Array.from(methods.keys())
+  });
+
+  if (port.start) port.start();
+
+  return done;
+}
+
+/**
+ * Connect to a state exposed over a message port, such as one in a Worker.
+ *
+ * Resolves with a mirror of that state. Its values will update after each update
+ * to the original, and its methods will call those of the original, returning a promise.
+ * Values assigned to mirror are not sent, so updates should be made by calling methods.
+ *
+ * Mirror is destroyed when the original is, and may be destroyed to disconnect.
+ *
+ * @param Type - Class of exposed state, which mirror will be typed as.
+ * @param port - Port which state is exposed over.
+ */
+function connect<T extends State>(
+  Type: State.Type<T>,
+  port: expose.Port
+): Promise<connect.Mirror<T>>;
+
+function connect(_Type: State.Type<State>, port: expose.Port) {
+  return new Promise<State>((resolve) => {
+    const calls = new Map<
+      string,
+      [(value: unknown) => void, (error: unknown) => void]
+    >();
+    let mirror: State;
+
+    function receive({ data }: MessageEvent<expose.Message>) {
+      if (data.type == 'init') init(data.id, data.methods);
+
+      if (data.type == 'init' || data.type == 'update') {
+        const store = STATE.get(mirror)!;
+
+        for (const key in data.values)
+          if (key in store) mirror.set(key, data.values[key]);
+          else mirror.set(key, data.values[key], true);
+      } else if (data.type == 'destroy') mirror.set(null);
+      else if (data.type == 'return' || data.type == 'throw') {
+        const pending = calls.get(data.call);
+
+        if (!pending) return;
+
+        const [resolve, reject] = pending;
+
+        calls.delete(data.call);
+
+        if (data.type == 'return') resolve(data.value);
+        else reject(data.error);
+      }
+    }
+
+    function init(id: string, methods: string[]) {
+      mirror = Remote.new(id);
+
+      for (const method of methods)
+        Object.defineProperty(mirror, method, {
+          value: (...args: unknown[]) =>
+            new Promise((resolve, reject) => {
+              const call = uid();
+
+              calls.set(call, [resolve, reject]);
+              port.postMessage({ type: 'call', call, method, args });
+            })
+        });
+
+      listener(
+        mirror,
+        () => {
+          port.removeEventListener('message', receive);
+
+          for (const [_, reject] of calls.values())
+            reject(new Error(`${mirror} is destroyed.`));
+        },
+        null
+      );
+
+      resolve(mirror);
+    }
+
+    port.addEventListener('message', receive);
+
+    if (port.start) port.start();
+  });
+}
+
+export { expose, connect };
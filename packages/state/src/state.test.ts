@@ -1,9 +1,18 @@
-import { vi, expect, it, describe, mockError, mockPromise } from '../vitest';
+import {
+  vi,
+  expect,
+  it,
+  describe,
+  mockError,
+  mockPromise,
+  beforeEach,
+  type MockInstance
+} from '../vitest';
 import { Context } from './context';
 import { get } from './instruction/get';
 import { ref } from './instruction/ref';
 import { set } from './instruction/set';
-import { State } from './state';
+import { State, updates } from './state';
 
 it('will extend custom class', () => {
   class Subject extends State {
@@ -140,6 +149,115 @@ it('will destroy children before self', () => {
   expect(destroyed).toBeCalled();
 });
 
+describe('async iterator', () => {
+  class Test extends State {
+    foo = 1;
+    bar = 2;
+  }
+
+  it('will yield keys of each update', async () => {
+    const test = Test.new();
+    const batches: unknown[] = [];
+
+    setTimeout(async () => {
+      test.foo = 2;
+      test.bar = 3;
+      await test.set();
+      test.foo = 3;
+      await test.set();
+      test.set(null);
+    });
+
+    for await (const keys of test) batches.push(keys);
+
+    expect(batches).toEqual([['foo', 'bar'], ['foo']]);
+  });
+
+  it('will filter by key', async () => {
+    const test = Test.new();
+    const iterator = updates(test, 'bar');
+
+    test.foo = 2;
+    await test.set();
+
+    test.foo = 3;
+    test.bar = 3;
+    await test.set();
+
+    await expect(iterator.next()).resolves.toEqual({
+      value: ['bar'],
+      done: false
+    });
+  });
+
+  it('will yield updates of computed value', async () => {
+    class Test extends State {
+      foo = 1;
+      double = set(this, ($) => $.foo * 2);
+    }
+
+    const test = Test.new();
+    const iterator = updates(test, 'double');
+
+    void test.double;
+    test.foo = 2;
+
+    for await (const keys of iterator) {
+      expect(keys).toEqual(['double']);
+      break;
+    }
+  });
+
+  it('will resolve each pending call in order', async () => {
+    const test = Test.new();
+    const iterator = updates(test);
+    const first = iterator.next();
+    const second = iterator.next();
+    const third = iterator.next();
+
+    test.foo = 2;
+    await test.set();
+
+    test.bar = 3;
+    await test.set();
+
+    test.set(null);
+
+    await expect(first).resolves.toEqual({ value: ['foo'], done: false });
+    await expect(second).resolves.toEqual({ value: ['bar'], done: false });
+    await expect(third).resolves.toEqual({ value: undefined, done: true });
+  });
+
+  it('will stop on return', async () => {
+    const test = Test.new();
+    const iterator = test[Symbol.asyncIterator]();
+
+    test.foo = 2;
+    await test.set();
+
+    await expect(iterator.return!()).resolves.toEqual({
+      value: undefined,
+      done: true
+    });
+
+    test.foo = 3;
+    await test.set();
+
+    await expect(iterator.next()).resolves.toEqual({
+      value: undefined,
+      done: true
+    });
+  });
+
+  it('will end if already destroyed', async () => {
+    const test = Test.new();
+
+    test.set(null);
+
+    for await (const _ of test) throw new Error('Should not yield.');
+  });
+});
+
 describe('methods', () => {
   it('will auto bind', async () => {
     class FooBar extends State {
@@ -598,6 +716,251 @@ describe('get method', () => {
     });
   });
 
+  describe('signal', () => {
+    class Test extends State {}
+
+    it('will abort when destroyed', () => {
+      const test = Test.new();
+      const signal = test.get(AbortSignal);
+
+      expect(signal).toBeInstanceOf(AbortSignal);
+      expect(signal.aborted).toBe(false);
+      expect(test.get(AbortSignal)).toBe(signal);
+
+      test.set(null);
+
+      expect(signal.aborted).toBe(true);
+    });
+
+    it('will be aborted if already destroyed', () => {
+      const test = Test.new();
+
+      test.set(null);
+
+      expect(test.get(AbortSignal).aborted).toBe(true);
+    });
+
+    it('will discard updates from async method after destroyed', async () => {
+      class Test extends State {
+        value = 0;
+        promise = mockPromise();
+
+        async load() {
+          await this.promise;
+          this.value = 1;
+        }
+      }
+
+      const test = Test.new();
+      const output = test.load();
+
+      test.set(null);
+      test.promise.resolve();
+
+      await expect(output).resolves.toBeUndefined();
+      expect(test.value).toBe(0);
+    });
+
+    it('will still throw on update after destroyed', () => {
+      class Test extends State {
+        value = 0;
+
+        async load() {}
+      }
+
+      const test = Test.new();
+
+      test.load();
+      test.set(null);
+
+      expect(() => (test.value = 1)).toThrow(
+        `Tried to update ${test}.value but state is destroyed.`
+      );
+    });
+  });
+
+  describe('status', () => {
+    class Test extends State {
+      promise = mockPromise<string>();
+
+      save() {
+        return this.promise;
+      }
+
+      sync() {
+        return 'foo';
+      }
+    }
+
+    it('will track pending method', async () => {
+      const test = Test.new();
+      const status = test.get(test.save, 'status');
+
+      expect(status.pending).toBe(false);
+
+      const output = test.save();
+
+      expect(status.pending).toBe(true);
+      await expect(status).toHaveUpdated('pending');
+
+      test.promise.resolve('bar');
+
+      await expect(status).toUpdate();
+      await expect(output).resolves.toBe('bar');
+
+      expect(status.pending).toBe(false);
+      expect(status.lastResult).toBe('bar');
+      expect(status.error).toBeUndefined();
+    });
+
+    it('will track error', async () => {
+      const test = Test.new();
+      const status = test.get(test.save, 'status');
+      const expected = new Error('foo');
+
+      test.save();
+      test.promise.resolve('bar');
+      await expect(status).toUpdate();
+
+      test.promise = mockPromise();
+      test.save().catch(() => {});
+      test.promise.reject(expected);
+      await expect(status).toUpdate();
+
+      expect(status.error).toBe(expected);
+      expect(status.lastResult).toBe('bar');
+    });
+
+    it('will track method called before status', async () => {
+      const test = Test.new();
+
+      test.save();
+
+      const status = test.get(test.save, 'status');
+
+      expect(status.pending).toBe(true);
+      expect(test.get(test.save, 'status')).toBe(status);
+      expect(test.get(test.get('save'), 'status')).toBe(status);
+    });
+
+    it('will track latest call made before status', async () => {
+      const test = Test.new();
+      const first = test.promise;
+
+      test.save();
+      test.promise = mockPromise();
+      test.save();
+
+      first.resolve('foo');
+      await first;
+
+      const status = test.get(test.save, 'status');
+
+      expect(status.pending).toBe(true);
+
+      test.promise.resolve('bar');
+      await expect(status).toUpdate();
+
+      expect(status.lastResult).toBe('bar');
+    });
+
+    it('will not track method settled before status', async () => {
+      const test = Test.new();
+      const output = test.save();
+
+      test.promise.resolve('foo');
+      await output;
+
+      expect(test.get(test.save, 'status').pending).toBe(false);
+    });
+
+    it('will not create status unless requested', async () => {
+      const created = vi.fn();
+      const release = State.on(function (key) {
+        if (key === true) created(this);
+      });
+
+      const test = Test.new();
+      const output = test.save();
+
+      test.promise.resolve('foo');
+      await output;
+      release();
+
+      expect(created).toBeCalledTimes(1);
+      expect(created).toBeCalledWith(test);
+    });
+
+    it('will settle only for latest call', async () => {
+      const test = Test.new();
+      const status = test.get(test.save, 'status');
+      const first = test.promise;
+
+      test.save();
+      test.promise = mockPromise();
+      test.save();
+
+      first.resolve('foo');
+      await first;
+
+      expect(status.pending).toBe(true);
+
+      test.promise.resolve('bar');
+      await expect(status).toUpdate();
+
+      expect(status.pending).toBe(false);
+      expect(status.lastResult).toBe('bar');
+    });
+
+    it('will ignore synchronous method', async () => {
+      const test = Test.new();
+      const status = test.get(test.sync, 'status');
+
+      expect(test.sync()).toBe('foo');
+      await expect(status).not.toHaveUpdated();
+      expect(status.pending).toBe(false);
+    });
+
+    it('will export status', () => {
+      const test = Test.new();
+
+      expect(test.get(test.save, 'status').get()).toEqual({
+        pending: false,
+        error: undefined,
+        lastResult: undefined
+      });
+    });
+
+    it('will destroy status with state', async () => {
+      const test = Test.new();
+      const status = test.get(test.save, 'status');
+      const other = test.get(test.sync, 'status');
+
+      test.save();
+      test.set(null);
+
+      expect(status.get(null)).toBe(true);
+      expect(other.get(null)).toBe(true);
+
+      test.promise.reject(new Error('foo'));
+
+      await expect(test.promise).rejects.toThrow();
+      expect(status.error).toBeUndefined();
+    });
+
+    it('will ignore rejection after status destroyed', async () => {
+      const test = Test.new();
+      const status = test.get(test.save, 'status');
+      const output = test.save();
+
+      status.set(null);
+      test.promise.reject(new Error('foo'));
+
+      await expect(output).rejects.toThrow('foo');
+      expect(status.error).toBeUndefined();
+    });
+  });
+
   describe('effect', () => {
     class Test extends State {
       value1 = 1;
@@ -1724,85 +2087,235 @@ describe('set method', () => {
 
       expect(test.foo).toBe('bar');
     });
-  });
-
-  it('will trigger normal setters', async () => {
-    let observed: string | null = null;
-
-    class Test extends State {
-      _foo = 'foo';
 
-      get foo() {
-        return this._foo;
+    it('will restore child state in place', async () => {
+      class Child extends State {
+        foo = 'foo';
+        bar = 'bar';
       }
 
-      set foo(value: string) {
-        observed = value;
-        this._foo = value;
+      class Test extends State {
+        child = new Child();
       }
-    }
 
-    const test = Test.new();
+      const test = Test.new();
+      const { child } = test;
 
-    test.set({ foo: 'bar' });
+      test.set({ child: { foo: 'baz' } });
 
-    await expect(test).toHaveUpdated('_foo');
+      expect(test.child).toBe(child);
+      expect(child.foo).toBe('baz');
+      expect(child.bar).toBe('bar');
 
-    expect(test.foo).toBe('bar');
-    expect(observed).toBe('bar');
-  });
-});
+      await expect(child).toHaveUpdated('foo');
+      await expect(test).not.toHaveUpdated();
+    });
 
-describe('new method', () => {
-  it('will call if exists', () => {
-    const didCreate = vi.fn();
+    it('will restore snapshot recursively', async () => {
+      class Grandchild extends State {
+        value = 0;
+      }
 
-    class Test extends State {
-      protected new() {
-        didCreate();
+      class Child extends State {
+        value = 0;
+        nested = new Grandchild();
       }
-    }
 
-    Test.new();
+      class Test extends State {
+        value = 0;
+        child = new Child();
+      }
 
-    expect(didCreate).toBeCalledTimes(1);
-  });
+      const test = Test.new();
+      const snapshot = test.get();
 
-  it('will cleanup if returns function', () => {
-    const didDestroy = vi.fn();
-    const didCreate = vi.fn(() => didDestroy);
+      test.value = 1;
+      test.child.value = 1;
+      test.child.nested.value = 1;
 
-    class Test extends State {
-      protected new() {
-        return didCreate();
-      }
-    }
+      const { child } = test;
+      const { nested } = child;
 
-    const state = Test.new();
+      test.set(snapshot);
 
-    expect(didCreate).toBeCalledTimes(1);
-    expect(didDestroy).not.toBeCalled();
+      expect(test.get()).toEqual(snapshot);
+      expect(test.child).toBe(child);
+      expect(child.nested).toBe(nested);
 
-    state.set(null);
+      await expect(nested).toHaveUpdated('value');
+    });
 
-    expect(didDestroy).toBeCalledTimes(1);
-  });
-});
+    it('will keep parent relationship after restore', () => {
+      const destroyed = vi.fn();
 
-describe('new method (static)', () => {
-  class Test extends State {}
+      class Child extends State {
+        value = 0;
+      }
 
-  it('will use string argument as ID', () => {
-    const state = Test.new('ID');
+      class Test extends State {
+        child = new Child();
+      }
 
-    expect(String(state)).toBe('ID');
-  });
+      const test = Test.new();
 
-  it('will call argument as lifecycle', () => {
-    const didDestroy = vi.fn();
-    const didCreate = vi.fn(() => didDestroy);
+      test.set({ child: { value: 1 } });
+      test.child.get(null, destroyed);
+      test.set(null);
 
-    const state = Test.new(didCreate);
+      expect(destroyed).toBeCalled();
+    });
+
+    it('will restore ref values', async () => {
+      class Test extends State {
+        element = ref<string>();
+      }
+
+      const test = Test.new();
+
+      test.set({ element: 'foo' });
+
+      expect(test.element.current).toBe('foo');
+      expect(test.get()).toEqual({ element: 'foo' });
+
+      await expect(test).toHaveUpdated('element');
+    });
+
+    it('will not restore state it does not own', () => {
+      class Parent extends State {
+        child = new Child();
+        foo = 'foo';
+      }
+
+      class Child extends State {
+        parent = get(Parent);
+        bar = 'bar';
+      }
+
+      const parent = Parent.new();
+      const snapshot = parent.get();
+
+      parent.foo = 'baz';
+      parent.set(snapshot);
+
+      expect(parent.foo).toBe('foo');
+      expect(parent.child.parent).toBe(parent);
+    });
+
+    it('will still replace child with another state', () => {
+      class Child extends State {
+        value = 0;
+      }
+
+      class Test extends State {
+        child = new Child();
+      }
+
+      const test = Test.new();
+      const child = Child.new();
+
+      test.set({ child });
+
+      expect(test.child).toBe(child);
+    });
+
+    it('will restore snapshot from constructor', () => {
+      class Child extends State {
+        value = 0;
+      }
+
+      class Test extends State {
+        child = new Child();
+      }
+
+      const test = Test.new();
+
+      test.child.value = 1;
+
+      const copy = Test.new(test.get());
+
+      expect(copy.child).toBeInstanceOf(Child);
+      expect(copy.child).not.toBe(test.child);
+      expect(copy.child.value).toBe(1);
+    });
+  });
+
+  it('will trigger normal setters', async () => {
+    let observed: string | null = null;
+
+    class Test extends State {
+      _foo = 'foo';
+
+      get foo() {
+        return this._foo;
+      }
+
+      set foo(value: string) {
+        observed = value;
+        this._foo = value;
+      }
+    }
+
+    const test = Test.new();
+
+    test.set({ foo: 'bar' });
+
+    await expect(test).toHaveUpdated('_foo');
+
+    expect(test.foo).toBe('bar');
+    expect(observed).toBe('bar');
+  });
+});
+
+describe('new method', () => {
+  it('will call if exists', () => {
+    const didCreate = vi.fn();
+
+    class Test extends State {
+      protected new() {
+        didCreate();
+      }
+    }
+
+    Test.new();
+
+    expect(didCreate).toBeCalledTimes(1);
+  });
+
+  it('will cleanup if returns function', () => {
+    const didDestroy = vi.fn();
+    const didCreate = vi.fn(() => didDestroy);
+
+    class Test extends State {
+      protected new() {
+        return didCreate();
+      }
+    }
+
+    const state = Test.new();
+
+    expect(didCreate).toBeCalledTimes(1);
+    expect(didDestroy).not.toBeCalled();
+
+    state.set(null);
+
+    expect(didDestroy).toBeCalledTimes(1);
+  });
+});
+
+describe('new method (static)', () => {
+  class Test extends State {}
+
+  it('will use string argument as ID', () => {
+    const state = Test.new('ID');
+
+    expect(String(state)).toBe('ID');
+  });
+
+  it('will call argument as lifecycle', () => {
+    const didDestroy = vi.fn();
+    const didCreate = vi.fn(() => didDestroy);
+
+    const state = Test.new(didCreate);
 
     expect(didCreate).toBeCalledTimes(1);
     expect(didDestroy).not.toBeCalled();
@@ -2033,104 +2546,931 @@ describe('is method (static)', () => {
   });
 });
 
-describe('on method (static)', () => {
-  class Test extends State {
-    foo = 'bar';
-  }
+describe('onError method (static)', () => {
+  let error: MockInstance<typeof console.error>;
+  let warn: MockInstance<typeof console.warn>;
+
+  // Spies are created per test, as mockError is restored by other suites.
+  beforeEach(() => {
+    error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    return () => {
+      error.mockRestore();
+      warn.mockRestore();
+    };
+  });
+
+  it('will catch error from effect', async () => {
+    class Test extends State {
+      value = 1;
+    }
 
-  it('will run callback on create', () => {
-    const mock = vi.fn();
-    const done = Test.on(mock);
     const test = Test.new();
+    const expected = new Error('effect');
+    const handler = vi.fn();
+    const release = State.onError(handler);
 
-    expect(mock).toBeCalledWith(true, test);
+    test.get(($) => {
+      if ($.value == 2) throw expected;
+    });
 
-    done();
+    test.value = 2;
+
+    await expect(test).toHaveUpdated();
+
+    expect(handler).toBeCalledWith(expected, test, undefined, 'effect');
+    expect(error).not.toBeCalled();
+
+    release();
   });
 
-  it('will run on various events', async () => {
-    const mock = vi.fn();
-    const done = Test.on(mock);
+  it('will catch error from listener', async () => {
+    class Test extends State {
+      value = 1;
+    }
+
     const test = Test.new();
+    const expected = new Error('listener');
+    const handler = vi.fn(function (this: Test) {
+      expect(this).toBe(test);
+    });
+    const release = Test.onError(handler);
 
-    test.set('event');
-    test.foo = 'baz';
+    test.set(() => () => {
+      throw expected;
+    });
 
-    expect(mock).toBeCalledWith('event', test);
-    expect(mock).toBeCalledWith('foo', test);
+    test.value = 2;
 
-    await test.set();
-    expect(mock).toBeCalledWith(false, test);
+    await expect(test).toHaveUpdated();
 
-    test.set(null);
-    expect(mock).toBeCalledWith(null, test);
+    expect(handler).toBeCalledWith(expected, test, undefined, 'listener');
+    expect(error).not.toBeCalled();
 
-    done();
+    release();
   });
 
-  it('will run callback for inherited classes', () => {
-    class Test2 extends Test {}
+  it('will catch async error from constructor', async () => {
+    class Test extends State {}
 
-    const createState = vi.fn();
-    const createTest = vi.fn();
-    const createTest2 = vi.fn();
+    const expected = new Error('init');
+    const handler = vi.fn();
+    const release = State.onError(handler);
+    const test = Test.new(() => Promise.reject(expected));
 
-    const done = [
-      Test.on(createTest),
-      Test2.on(createTest2),
-      State.on(createState)
-    ];
+    await new Promise((res) => setTimeout(res));
 
-    const test = Test2.new();
+    expect(handler).toBeCalledWith(expected, test, undefined, 'init');
+    expect(error).not.toBeCalled();
 
-    expect(createState).toBeCalledWith(true, test);
-    expect(createTest).toBeCalledWith(true, test);
-    expect(createTest2).toBeCalledWith(true, test);
+    release();
+  });
 
-    done.forEach((done) => done());
+  it('will catch error from computed value', async () => {
+    class Test extends State {
+      value = 1;
+      double = set(this, ($) => {
+        if ($.value == 2) throw expected;
+        return $.value * 2;
+      });
+    }
+
+    const expected = new Error('compute');
+    const handler = vi.fn();
+    const release = State.onError(handler);
+    const test = Test.new();
+
+    expect(test.double).toBe(2);
+
+    test.value = 2;
+
+    await expect(test).toHaveUpdated();
+
+    expect(test.double).toBeUndefined();
+    expect(handler).toBeCalledWith(expected, test, 'double', 'compute');
+    expect(warn).not.toBeCalled();
+    expect(error).not.toBeCalled();
+
+    release();
   });
 
-  it('will squash same callback for multiple classes', () => {
-    class Test2 extends Test {}
+  it('will catch error from initial computed value', () => {
+    class Test extends State {
+      value = 1;
+      double = set(this, () => {
+        throw expected;
+      });
+    }
 
-    const didCreate = vi.fn();
-    const done = [Test.on(didCreate), Test2.on(didCreate), State.on(didCreate)];
+    const expected = new Error('compute');
+    const handler = vi.fn();
+    const release = State.onError(handler);
+    const test = Test.new();
 
-    Test2.new();
+    expect(() => test.double).toThrow(expected);
+    expect(handler).toBeCalledWith(expected, test, 'double', 'compute');
+    expect(warn).not.toBeCalled();
 
-    expect(didCreate).toBeCalledTimes(1);
+    release();
+  });
 
-    done.forEach((done) => done());
+  it('will catch error from factory', () => {
+    class Test extends State {
+      value = set(() => {
+        throw expected;
+      });
+    }
+
+    const expected = new Error('factory');
+    const handler = vi.fn();
+    const release = State.onError(handler);
+    const test = Test.new();
+
+    expect(() => test.value).toThrow(expected);
+
+    // Value will throw when accessed, so cannot be compared by equality.
+    expect(handler).toBeCalledWith(
+      expected,
+      expect.any(Test),
+      'value',
+      'factory'
+    );
+    expect(handler.mock.calls[0][1]).toBe(test);
+    expect(warn).not.toBeCalled();
+
+    release();
   });
 
-  it('will remove callback', () => {
-    const mock = vi.fn();
-    const done = Test.on(mock);
+  it('will catch rejection from async factory', async () => {
+    class Test extends State {
+      value = set(() => promise);
+    }
 
-    Test.new();
-    expect(mock).toBeCalled();
+    const expected = new Error('factory');
+    const promise = mockPromise();
+    const handler = vi.fn();
+    const release = State.onError(handler);
+    const test = Test.new();
 
-    done();
+    expect(() => test.value).toThrow();
 
-    Test.new();
-    expect(mock).toBeCalledTimes(1);
+    promise.reject(expected);
+
+    await new Promise((res) => setTimeout(res));
+
+    expect(handler).toBeCalledWith(
+      expected,
+      expect.any(Test),
+      'value',
+      'factory'
+    );
+    expect(handler.mock.calls[0][1]).toBe(test);
+
+    release();
   });
 
-  it('will run callback on event', () => {
-    const mock = vi.fn();
-    const done = Test.on((key: any, state: any) => {
-      mock(key, state[key]);
+  it('will ignore errors from other classes', async () => {
+    class Test extends State {
+      value = 1;
+    }
+
+    class Other extends State {}
+
+    const test = Test.new();
+    const expected = new Error('effect');
+    const handler = vi.fn();
+    const release = Other.onError(handler);
+
+    test.get(($) => {
+      if ($.value == 2) throw expected;
     });
 
+    test.value = 2;
+
+    await expect(test).toHaveUpdated();
+
+    expect(handler).not.toBeCalled();
+    expect(error).toBeCalledWith(expected);
+
+    release();
+  });
+
+  it('will log error thrown by handler', async () => {
+    class Test extends State {
+      value = 1;
+    }
+
     const test = Test.new();
+    const expected = new Error('handler');
+    const release = State.onError(() => {
+      throw expected;
+    });
 
-    expect(mock).toBeCalledWith(true, undefined);
+    const original = new Error('effect');
 
-    test.foo = 'baz';
+    test.get(($) => {
+      if ($.value == 2) throw original;
+    });
 
-    expect(mock).toBeCalledWith('foo', 'baz');
+    test.value = 2;
 
-    done();
+    await expect(test).toHaveUpdated();
+
+    expect(error).toBeCalledTimes(2);
+    expect(error).toBeCalledWith(expected);
+    expect(error).toBeCalledWith(original);
+
+    release();
+  });
+
+  it('will log again once removed', async () => {
+    class Test extends State {}
+
+    const expected = new Error('init');
+    const handler = vi.fn();
+    const release = State.onError(handler);
+
+    release();
+
+    const test = Test.new('ID', () => Promise.reject(expected));
+
+    await new Promise((res) => setTimeout(res));
+
+    expect(handler).not.toBeCalled();
+    expect(error).toBeCalledWith('Async error in constructor for ID:');
+    expect(error).toBeCalledWith(expected);
+    expect(test).toBeInstanceOf(Test);
+  });
+});
+
+describe('transaction method (static)', () => {
+  class Test extends State {
+    foo = 'foo';
+    bar = 'bar';
+  }
+
+  it('will dispatch updates once complete', () => {
+    const test = Test.new();
+    const mock = vi.fn();
+
+    test.set((key) => {
+      mock(key, test.foo, test.bar);
+    });
+
+    State.transaction(test, () => {
+      test.foo = 'baz';
+      test.bar = 'qux';
+      test.foo = 'quux';
+
+      expect(mock).not.toBeCalled();
+    });
+
+    expect(mock).toBeCalledTimes(2);
+    expect(mock).toBeCalledWith('foo', 'quux', 'qux');
+    expect(mock).toBeCalledWith('bar', 'quux', 'qux');
+  });
+
+  it('will return output of function', () => {
+    const test = Test.new();
+    const output = State.transaction(test, function (state) {
+      expect(this).toBe(test);
+      return state.foo;
+    });
+
+    expect(output).toBe('foo');
+  });
+
+  it('will revert updates if function throws', async () => {
+    const test = Test.new();
+    const mock = vi.fn();
+
+    test.set(mock);
+
+    const attempt = () =>
+      State.transaction(test, () => {
+        test.foo = 'baz';
+        test.bar = 'qux';
+        throw new Error('Nope');
+      });
+
+    expect(attempt).toThrow('Nope');
+    expect(mock).not.toBeCalled();
+    expect(test.foo).toBe('foo');
+    expect(test.bar).toBe('bar');
+
+    await expect(test).not.toHaveUpdated();
+  });
+
+  it('will revert properties added', () => {
+    const test = Test.new();
+
+    const attempt = () =>
+      State.transaction(test, () => {
+        test.set('baz', 'baz', true);
+        test.set({ baz: 'qux' }, true);
+        throw new Error('Nope');
+      });
+
+    expect(attempt).toThrow();
+    expect(test.get()).toEqual({ foo: 'foo', bar: 'bar' });
+  });
+
+  it('will include child states', async () => {
+    class Child extends State {
+      value = 0;
+    }
+
+    class Parent extends State {
+      value = 0;
+      child = new Child();
+    }
+
+    const parent = Parent.new();
+    const mock = vi.fn();
+
+    parent.child.set(mock);
+
+    State.transaction(parent, () => {
+      parent.value = 1;
+      parent.child.value = 1;
+    });
+
+    expect(mock).toBeCalledWith('value', parent.child);
+
+    const attempt = () =>
+      State.transaction(parent, () => {
+        parent.value = 2;
+        parent.child.value = 2;
+        throw new Error('Nope');
+      });
+
+    expect(attempt).toThrow();
+    expect(parent.value).toBe(1);
+    expect(parent.child.value).toBe(1);
+  });
+
+  it('will not dispatch if value is restored', async () => {
+    const test = Test.new();
+    const mock = vi.fn();
+
+    test.set(mock);
+
+    State.transaction(test, () => {
+      test.foo = 'baz';
+      test.foo = 'foo';
+    });
+
+    expect(mock).not.toBeCalled();
+  });
+
+  it('will dispatch new properties', async () => {
+    const test = Test.new();
+
+    State.transaction(test, () => {
+      test.set('baz', 'baz', true);
+      test.set('qux', 'qux');
+    });
+
+    await expect(test).toHaveUpdated('qux');
+    expect(test.get()).toMatchObject({ baz: 'baz', qux: 'qux' });
+  });
+
+  it('will dispatch silent update if made normal', async () => {
+    const test = Test.new();
+
+    State.transaction(test, () => {
+      test.set({ foo: 'baz' }, true);
+      test.bar = 'qux';
+      test.set({ foo: 'quux' });
+    });
+
+    await expect(test).toHaveUpdated('foo', 'bar');
+  });
+
+  it('will join outer transaction', () => {
+    const test = Test.new();
+    const mock = vi.fn();
+
+    test.set(mock);
+
+    const attempt = () =>
+      State.transaction(test, () => {
+        State.transaction(test, () => {
+          test.foo = 'baz';
+        });
+
+        expect(mock).not.toBeCalled();
+        throw new Error('Nope');
+      });
+
+    expect(attempt).toThrow();
+    expect(test.foo).toBe('foo');
+  });
+
+  it('will revert only inner transaction if caught', async () => {
+    const test = Test.new();
+    const mock = vi.fn();
+
+    test.set((key) => {
+      mock(key);
+    });
+
+    State.transaction(test, () => {
+      test.foo = 'baz';
+
+      expect(() => {
+        State.transaction(test, () => {
+          test.foo = 'qux';
+          test.bar = 'qux';
+          test.set('baz', 'baz', true);
+          test.set('baz', 'qux');
+          throw new Error('Nope');
+        });
+      }).toThrow('Nope');
+
+      expect(test.foo).toBe('baz');
+      expect(test.bar).toBe('bar');
+    });
+
+    expect(test.foo).toBe('baz');
+    expect(test.bar).toBe('bar');
+    expect(mock).toBeCalledTimes(1);
+    expect(mock).toBeCalledWith('foo');
+  });
+
+  it('will revert nested transaction within inner', () => {
+    const test = Test.new();
+
+    State.transaction(test, () => {
+      expect(() => {
+        State.transaction(test, () => {
+          State.transaction(test, () => {
+            test.foo = 'baz';
+          });
+
+          State.transaction(test, () => {
+            test.foo = 'qux';
+            test.bar = 'qux';
+          });
+
+          throw new Error('Nope');
+        });
+      }).toThrow('Nope');
+    });
+
+    expect(test.get()).toEqual({ foo: 'foo', bar: 'bar' });
+  });
+});
+
+describe('equals property (static)', () => {
+  it('will ignore update if shallow equal', async () => {
+    class Test extends State {
+      static equals = 'shallow' as const;
+
+      value = { foo: 'bar' };
+    }
+
+    const test = Test.new();
+    const { value } = test;
+
+    test.value = { foo: 'bar' };
+
+    await expect(test).not.toHaveUpdated();
+    expect(test.value).toBe(value);
+
+    test.value = { foo: 'baz' };
+
+    await expect(test).toHaveUpdated('value');
+  });
+
+  it('will ignore update if deep equal', async () => {
+    class Test extends State {
+      static equals = 'deep' as const;
+
+      value = { foo: ['bar'] };
+    }
+
+    const test = Test.new();
+
+    test.value = { foo: ['bar'] };
+
+    await expect(test).not.toHaveUpdated();
+  });
+
+  it('will use custom comparator', async () => {
+    class Test extends State {
+      static equals = (a: unknown, b: unknown) =>
+        String(a).toLowerCase() == String(b).toLowerCase();
+
+      value = 'foo';
+    }
+
+    const test = Test.new();
+
+    test.value = 'FOO';
+    await expect(test).not.toHaveUpdated();
+
+    test.value = 'bar';
+    await expect(test).toHaveUpdated('value');
+  });
+
+  it('will be inherited', async () => {
+    class Test extends State {
+      static equals = 'shallow' as const;
+    }
+
+    class Test2 extends Test {
+      value = [1, 2];
+    }
+
+    const test = Test2.new();
+
+    test.value = [1, 2];
+
+    await expect(test).not.toHaveUpdated();
+  });
+
+  it('will not compare child states', async () => {
+    class Child extends State {}
+    class Test extends State {
+      static equals = 'deep' as const;
+
+      child = new Child();
+    }
+
+    const test = Test.new();
+
+    test.child = new Child();
+
+    await expect(test).toHaveUpdated('child');
+  });
+});
+
+describe('track method (static)', () => {
+  it('will find instance by ID', () => {
+    class Test extends State {}
+
+    const done = Test.track();
+    const test = Test.new('ID');
+
+    expect(Test.find('ID')).toBe(test);
+    expect(State.find('ID')).toBe(test);
+    expect(Test.find('foo')).toBeUndefined();
+
+    test.set(null);
+
+    expect(Test.find('ID')).toBeUndefined();
+
+    done();
+  });
+
+  it('will not find instance of other class', () => {
+    class Test extends State {}
+    class Other extends State {}
+
+    const done = State.track();
+    const test = Test.new('ID');
+
+    expect(Other.find('ID')).toBeUndefined();
+    expect(Test.find('ID')).toBe(test);
+
+    test.set(null);
+    done();
+  });
+
+  it('will list instances including subclasses', () => {
+    class Test extends State {}
+    class Test2 extends Test {}
+    class Other extends State {}
+
+    const done = State.track();
+    const test = Test.new();
+    const test2 = Test2.new();
+    const other = Other.new();
+
+    expect(Test.instances()).toEqual([test, test2]);
+    expect(Test2.instances()).toEqual([test2]);
+    expect(Other.instances()).toEqual([other]);
+
+    [test, test2, other].forEach((x) => x.set(null));
+
+    expect(Test.instances()).toEqual([]);
+
+    done();
+  });
+
+  it('will not track until ready', () => {
+    class Test extends State {}
+
+    const done = Test.track();
+    const test = new Test();
+
+    expect(Test.instances()).toEqual([]);
+
+    test.set();
+
+    expect(Test.instances()).toEqual([test]);
+
+    test.set(null);
+    done();
+  });
+
+  it('will callback on create and destroy', () => {
+    class Test extends State {
+      value = 1;
+    }
+
+    const callback = vi.fn();
+    const done = Test.track(callback);
+    const test = Test.new();
+
+    expect(callback).toBeCalledWith(test, 'create');
+
+    test.value = 2;
+
+    test.set(null);
+
+    expect(callback).toBeCalledWith(test, 'destroy');
+    expect(callback).toBeCalledTimes(2);
+
+    done();
+  });
+
+  it('will stop tracking new instances', () => {
+    class Test extends State {}
+
+    const done = Test.track();
+    const test = Test.new();
+
+    done();
+
+    const test2 = Test.new();
+
+    expect(Test.instances()).toEqual([test]);
+
+    test.set(null);
+    test2.set(null);
+
+    expect(Test.instances()).toEqual([]);
+  });
+});
+
+describe('on method (static)', () => {
+  class Test extends State {
+    foo = 'bar';
+  }
+
+  it('will run callback on create', () => {
+    const mock = vi.fn();
+    const done = Test.on(mock);
+    const test = Test.new();
+
+    expect(mock).toBeCalledWith(true, test);
+
+    done();
+  });
+
+  it('will run on various events', async () => {
+    const mock = vi.fn();
+    const done = Test.on(mock);
+    const test = Test.new();
+
+    test.set('event');
+    test.foo = 'baz';
+
+    expect(mock).toBeCalledWith('event', test);
+    expect(mock).toBeCalledWith('foo', test);
+
+    await test.set();
+    expect(mock).toBeCalledWith(false, test);
+
+    test.set(null);
+    expect(mock).toBeCalledWith(null, test);
+
+    done();
+  });
+
+  it('will run callback for inherited classes', () => {
+    class Test2 extends Test {}
+
+    const createState = vi.fn();
+    const createTest = vi.fn();
+    const createTest2 = vi.fn();
+
+    const done = [
+      Test.on(createTest),
+      Test2.on(createTest2),
+      State.on(createState)
+    ];
+
+    const test = Test2.new();
+
+    expect(createState).toBeCalledWith(true, test);
+    expect(createTest).toBeCalledWith(true, test);
+    expect(createTest2).toBeCalledWith(true, test);
+
+    done.forEach((done) => done());
+  });
+
+  it('will squash same callback for multiple classes', () => {
+    class Test2 extends Test {}
+
+    const didCreate = vi.fn();
+    const done = [Test.on(didCreate), Test2.on(didCreate), State.on(didCreate)];
+
+    Test2.new();
+
+    expect(didCreate).toBeCalledTimes(1);
+
+    done.forEach((done) => done());
+  });
+
+  it('will remove callback', () => {
+    const mock = vi.fn();
+    const done = Test.on(mock);
+
+    Test.new();
+    expect(mock).toBeCalled();
+
+    done();
+
+    Test.new();
+    expect(mock).toBeCalledTimes(1);
+  });
+
+  it('will run callback on event', () => {
+    const mock = vi.fn();
+    const done = Test.on((key: any, state: any) => {
+      mock(key, state[key]);
+    });
+
+    const test = Test.new();
+
+    expect(mock).toBeCalledWith(true, undefined);
+
+    test.foo = 'baz';
+
+    expect(mock).toBeCalledWith('foo', 'baz');
+
+    done();
+  });
+});
+
+describe('intercept method (static)', () => {
+  class Test extends State {
+    foo = 'foo';
+    bar = 1;
+  }
+
+  it('will see each write', () => {
+    const middleware = vi.fn();
+    const done = Test.intercept(middleware);
+    const test = Test.new();
+
+    middleware.mockClear();
+    test.foo = 'baz';
+
+    expect(middleware).toBeCalledWith('foo', 'baz', 'foo', test);
+    expect(middleware.mock.instances[0]).toBe(test);
+
+    done();
+  });
+
+  it('will see initial values', () => {
+    const middleware = vi.fn();
+    const done = Test.intercept(middleware);
+    const test = Test.new();
+
+    expect(middleware).toBeCalledWith('foo', 'foo', undefined, test);
+    expect(middleware).toBeCalledWith('bar', 1, undefined, test);
+
+    done();
+  });
+
+  it('will transform value', async () => {
+    const done = State.intercept((_key, value) => {
+      if (typeof value == 'string') return () => value.trim();
+    });
+
+    const test = Test.new();
+
+    test.foo = '  baz  ';
+    test.bar = 2;
+
+    expect(test.foo).toBe('baz');
+    expect(test.bar).toBe(2);
+    await expect(test).toHaveUpdated('foo', 'bar');
+
+    done();
+  });
+
+  it('will ignore write', async () => {
+    const done = Test.intercept(function (key, value) {
+      if (key == 'bar' && value < 0) return false;
+    });
+
+    const test = Test.new();
+
+    test.bar = -1;
+
+    expect(test.bar).toBe(1);
+    await expect(test).not.toUpdate();
+
+    test.bar = 2;
+
+    expect(test.bar).toBe(2);
+
+    done();
+  });
+
+  it('will run before setter of property', () => {
+    const setter = vi.fn();
+    const done = Test.intercept(() => () => 'intercepted');
+
+    class Test2 extends Test {
+      baz = set('baz', setter);
+    }
+
+    const test = Test2.new();
+
+    test.baz = 'qux';
+
+    expect(setter).toBeCalledWith('intercepted', 'baz');
+
+    done();
+  });
+
+  it('will run once for instruction', async () => {
+    class Test extends State {
+      foo = set('a');
+    }
+
+    const calls: unknown[] = [];
+    const done = Test.intercept((key, value) => {
+      calls.push([key, value]);
+
+      if (typeof value == 'string') return () => value + '!';
+    });
+
+    const test = Test.new();
+
+    calls.length = 0;
+    test.foo = 'b';
+
+    expect(calls).toEqual([['foo', 'b']]);
+    expect(test.foo).toBe('b!');
+    await expect(test).toHaveUpdated('foo');
+
+    done();
+  });
+
+  it('will run for inherited classes in order', () => {
+    class Test2 extends Test {}
+    class Other extends State {
+      foo = 'foo';
+    }
+
+    const calls: string[] = [];
+    const done = [
+      State.intercept(() => {
+        calls.push('State');
+      }),
+      Test.intercept(() => {
+        calls.push('Test');
+      }),
+      Test2.intercept(() => {
+        calls.push('Test2');
+      })
+    ];
+
+    const test = Test2.new();
+    const other = Other.new();
+
+    calls.length = 0;
+    test.foo = 'bar';
+
+    expect(calls).toEqual(['Test2', 'Test', 'State']);
+
+    calls.length = 0;
+    other.foo = 'bar';
+
+    expect(calls).toEqual(['State']);
+
+    done.forEach((done) => done());
+  });
+
+  it('will remove middleware', () => {
+    const middleware = vi.fn();
+    const done = Test.intercept(middleware);
+
+    Test.intercept(middleware);
+    done();
+    done();
+
+    Test.new();
+
+    expect(middleware).not.toBeCalled();
   });
 });
 
@@ -1,12 +1,17 @@
 import {
+  CATCH,
   listener,
   watch,
   event,
   Observable,
   observing,
   observe,
-  pending
+  pending,
+  report
 } from './observable';
+import { copy } from './collection';
+import { deep, shallow } from './equals';
+import { observable } from './interop';
 
 const define = Object.defineProperty;
 
@@ -19,6 +24,12 @@ const STATE = new WeakMap<State, Record<string | number | symbol, unknown>>();
 /** External listeners for any given State. */
 const NOTIFY = new WeakMap<State.Extends, Set<Observable.Notify>>();
 
+/** Middleware for writes to any given State. */
+const INTERCEPT = new WeakMap<State.Extends, Set<State.Intercept<any>>>();
+
+/** Number of middleware registered for any class, to skip lookup where there are none. */
+let INTERCEPTORS = 0;
+
 /** Parent-child relationships. */
 const PARENT = new WeakMap<State, State | null>();
 
@@ -28,9 +39,56 @@ const METHOD = new WeakMap<any, any>();
 /** List of methods defined by a given type. */
 const METHODS = new WeakMap<Function, Map<string, (value: any) => void>>();
 
+/**
+ * Key for Observable interop. Libraries such as RxJS will fall back
+ * to `@@observable` where `Symbol.observable` is not defined.
+ *
+ * Where that is the case, this key is a string at runtime. It is typed as a
+ * unique symbol regardless, so a computed member does not widen keys of State.
+ */
+const OBSERVABLE: unique symbol = ((Symbol as { observable?: symbol })
+  .observable || '@@observable') as any;
+
+/** Status of async methods, by original function, for a given State. */
+const STATUS = new WeakMap<State, Map<Function, Status>>();
+
+/** Most recent promise returned by a method, for its status. */
+const LATEST = new WeakMap<Status, Promise<unknown>>();
+
+/** Pending promise returned by each method of a state, for status requested while in progress. */
+const CALLS = new WeakMap<State, Map<Function, Promise<unknown>>>();
+
+/** Equality check for specific properties, where it overrides class default. */
+const EQUALS = new WeakMap<
+  State,
+  Map<string | number | symbol, State.Equals>
+>();
+
+/** Live instances of classes which are tracked. See `State.track`. */
+const TRACKED = new Set<State>();
+
+/** Abort controller for a given State, created as needed. Aborts when state is destroyed. */
+const ABORT = new WeakMap<State, AbortController>();
+
 /** Currently accumulating export. Stores real values of placeholder properties such as ref() or child states. */
 let EXPORT: Map<any, any> | undefined;
 
+/** Properties written during current transaction; previous value, if existed and if event is held. */
+let TRANSACTION:
+  | Map<State, Map<string | number | symbol, [unknown, boolean, boolean]>>
+  | undefined;
+
+/** Properties written during current nested transaction; value, if existed and entry of outer transaction before write. */
+let SAVEPOINT:
+  | Map<
+      State,
+      Map<
+        string | number | symbol,
+        [unknown, boolean, [unknown, boolean, boolean] | undefined]
+      >
+    >
+  | undefined;
+
 declare namespace State {
   /** Any type of State, using own class constructor as its identifier. */
   type Extends<T extends State = State> = (abstract new (...args: any[]) => T) &
@@ -62,9 +120,15 @@ declare namespace State {
   type Assign<T> = Record<string, unknown> & {
     [K in Field<T>]?: T[K] extends (...args: infer A) => infer R
       ? (this: T, ...args: A) => R
-      : T[K];
+      : Import<T[K]>;
   };
 
+  /**
+   * Value which may be assigned to a property.
+   * Child states and exotics will also accept their exported form.
+   */
+  type Import<R> = R extends State ? R | Assign<R> : R | Export<R>;
+
   /** Subset of `keyof T` which are not methods or defined by base State U. **/
   type Field<T> = Exclude<keyof T, keyof State>;
 
@@ -87,6 +151,17 @@ declare namespace State {
   /** Object comperable to data found in T. */
   type Partial<T> = { [P in Field<T>]?: Export<T[P]> };
 
+  /** View of a state where fields, including those of child states, may not be assigned. */
+  type ReadOnly<T> = {
+    readonly [K in keyof T]: K extends 'is'
+      ? ReadOnly<T>
+      : K extends Field<T>
+        ? T[K] extends State
+          ? ReadOnly<T[K]>
+          : T[K]
+        : T[K];
+  };
+
   /** Value for a property managed by a state. */
   type Value<T extends State, K extends State.Event<T>> = K extends keyof T
     ? Export<T[K]>
@@ -94,12 +169,68 @@ declare namespace State {
 
   type Setter<T> = (value: T, previous: T) => boolean | void | (() => T);
 
+  /**
+   * How to determine if a new value is equal to previous one, in which case update is ignored.
+   *
+   * - `'shallow'` - arrays and plain objects are equal if keys and values are identical.
+   * - `'deep'` - arrays and plain objects are equal if contents are equal, recursively.
+   * - function - custom comparator, returns true if values are equal.
+   */
+  type Equals<T = any> =
+    | 'shallow'
+    | 'deep'
+    | ((next: T, previous: T) => boolean);
+
+  /**
+   * Callback for instances added or removed from registry.
+   *
+   * @param instance - Instance which was created or destroyed.
+   * @param event - `'create'` if instance is now ready, `'destroy'` if expired.
+   */
+  type OnTrack<T extends State> = (
+    instance: T,
+    event: 'create' | 'destroy'
+  ) => void;
+
+  /**
+   * Middleware for writes to properties of a state. Runs before any setter of the property.
+   * Return `false` to ignore write, or a function to replace value with its output.
+   *
+   * @param key - Property being written to.
+   * @param value - Value being written.
+   * @param previous - Current value of property.
+   * @param source - State being written to.
+   */
+  type Intercept<T extends State> = (
+    this: T,
+    key: Event<T>,
+    value: any,
+    previous: any,
+    source: T
+  ) => boolean | void | (() => unknown);
+
   type OnEvent<T extends State> = (
     this: T,
     key: Signal<T>,
     source: T
   ) => void | (() => void) | null;
 
+  /**
+   * Handler for errors caught on behalf of a state.
+   *
+   * @param error - Error which was thrown.
+   * @param state - Instance for which error was caught.
+   * @param key - Property related to error, if any.
+   * @param origin - What type of callback threw the error.
+   */
+  type OnError<T extends State> = (
+    this: T,
+    error: unknown,
+    state: T,
+    key: Event<T> | undefined,
+    origin: Observable.Origin
+  ) => void;
+
   type OnUpdate<T extends State, K extends State.Event<T>> = (
     this: T,
     key: K,
@@ -148,6 +279,12 @@ interface State {
 }
 
 abstract class State implements Observable {
+  /**
+   * Default equality check for properties of this class.
+   * Values are otherwise compared by identity only.
+   */
+  static equals?: State.Equals;
+
   constructor(...args: State.Args) {
     prepare(this);
     define(this, 'is', { value: this });
@@ -181,6 +318,15 @@ abstract class State implements Observable {
    */
   get(effect: State.Effect<this>): () => void;
 
+  /**
+   * Get status of a method. Status is updated whenever method returns a promise.
+   *
+   * @param method - Method of this state.
+   * @param status - `'status'` to get status of method.
+   * @returns Child state with reactive `pending`, `error` and `lastResult` properties.
+   */
+  get<R>(method: (...args: any[]) => R, status: 'status'): Status<Awaited<R>>;
+
   /**
    * Get value of a property.
    *
@@ -221,14 +367,25 @@ abstract class State implements Observable {
    */
   get(status: null, callback: () => void): () => void;
 
+  /**
+   * Get signal which will abort when state is destroyed.
+   * Use to cancel async work, such as `fetch`, which should not outlive this state.
+   *
+   * @param signal - `AbortSignal` class, to get signal for this state.
+   */
+  get(signal: typeof AbortSignal): AbortSignal;
+
   get(
-    arg1?: State.Effect<this> | string | null,
-    arg2?: boolean | State.OnUpdate<this, any>
+    arg1?: State.Effect<this> | string | null | typeof AbortSignal,
+    arg2?: boolean | State.OnUpdate<this, any> | 'status'
   ) {
     const self = this.is;
 
     if (arg1 === undefined) return values(self);
-    if (typeof arg1 == 'function') return effect(self, arg1);
+    if (arg1 === AbortSignal) return signal(self);
+    if (arg2 === 'status') return status(self, METHOD.get(arg1) || arg1);
+    if (typeof arg1 == 'function')
+      return effect(self, arg1 as State.Effect<this>);
     if (typeof arg2 == 'function') return listener(self, arg2, arg1);
     if (arg1 === null) return Object.isFrozen(STATE.get(self));
     return access(self, arg1, arg2);
@@ -245,6 +402,9 @@ abstract class State implements Observable {
    * Update mulitple properties at once. Merges argument with current state.
    * Properties which are not managed by this state will be ignored.
    *
+   * Values for child states (and refs) are restored in place, so output
+   * of `get()` may be used to restore a snapshot without losing instances.
+   *
    * @param assign - Object with properties to update.
    * @param silent - If an update does occur, listeners will not be refreshed automatically.
    * @returns Promise resolving an array of keys updated, `undefined` (immediately) if a noop.
@@ -357,6 +517,22 @@ abstract class State implements Observable {
     return Object.entries(STATE.get(this.is)!)[Symbol.iterator]();
   }
 
+  /**
+   * Iterate over updates to this state, using `for await`.
+   * Yields keys updated by each batch, as it completes. Will end when state is destroyed.
+   */
+  [Symbol.asyncIterator](): AsyncIterableIterator<State.Event<this>[]> {
+    return updates(this.is);
+  }
+
+  /**
+   * Interop observable of this state, for libraries such as RxJS.
+   * Emits a snapshot of values whenever an update completes.
+   */
+  [OBSERVABLE]() {
+    return observable(this);
+  }
+
   /**
    * Create and activate a new instance of this state.
    *
@@ -398,6 +574,189 @@ abstract class State implements Observable {
 
     return () => notify.delete(listener);
   }
+
+  /**
+   * Register middleware to run on writes to any instance of this State, including subclasses.
+   * Middleware of subclasses will run before those of the classes they extend.
+   *
+   * @param middleware - Function to see, transform or ignore each write.
+   * @returns Function to remove middleware.
+   */
+  static intercept<T extends State>(
+    this: State.Extends<T>,
+    middleware: State.Intercept<T>
+  ) {
+    let intercept = INTERCEPT.get(this);
+
+    if (!intercept) INTERCEPT.set(this, (intercept = new Set()));
+
+    if (!intercept.has(middleware)) {
+      intercept.add(middleware);
+      INTERCEPTORS++;
+    }
+
+    return () => {
+      if (intercept.delete(middleware)) INTERCEPTORS--;
+    };
+  }
+
+  /**
+   * Add instances of this class (and subclasses) to a registry, as they are created.
+   * Instances are removed once destroyed. Use `find` and `instances` to look them up.
+   *
+   * @param callback - Optional function to call when an instance is added or removed.
+   * @returns Function to stop tracking new instances. Existing ones remain until destroyed.
+   */
+  static track<T extends State>(
+    this: State.Extends<T>,
+    callback?: State.OnTrack<T>
+  ) {
+    return this.on(function (key) {
+      if (key === true) {
+        TRACKED.add(this);
+        if (callback) callback(this, 'create');
+      } else if (key === null) {
+        TRACKED.delete(this);
+        if (callback) callback(this, 'destroy');
+      }
+    });
+  }
+
+  /**
+   * Find a live instance of this class by its ID. Only instances which are tracked will be found.
+   *
+   * @param id - ID of instance, either generated or passed to constructor.
+   * @returns Instance if found, otherwise `undefined`.
+   */
+  static find<T extends State>(
+    this: State.Extends<T>,
+    id: string
+  ): T | undefined {
+    for (const instance of TRACKED)
+      if (instance instanceof this && ID.get(instance) === id)
+        return instance as T;
+  }
+
+  /**
+   * Get all live instances of this class, including subclasses. Only instances which are tracked are included.
+   */
+  static instances<T extends State>(this: State.Extends<T>): T[] {
+    return [...TRACKED].filter(
+      (instance): instance is T => instance instanceof this
+    );
+  }
+
+  /**
+   * Register a handler for errors which would otherwise be logged to console.
+   * This includes errors thrown by effects and listeners while dispatching, rejected
+   * promises from constructor callbacks, as well as factories and computed values which fail.
+   *
+   * Handler will receive errors only for instances of this class (or subclasses).
+   *
+   * @param handler - Function to call with error and where it came from.
+   * @returns Function to remove handler.
+   */
+  static onError<T extends State>(
+    this: State.Extends<T>,
+    handler: State.OnError<T>
+  ) {
+    const handle: Observable.OnError = (error, source, key, origin) => {
+      if (!(source instanceof this)) return false;
+
+      handler.call(source as T, error, source as T, key, origin);
+    };
+
+    CATCH.add(handle);
+
+    return () => CATCH.delete(handle);
+  }
+
+  /**
+   * Run a function as a transaction. Updates to any state are held from listeners
+   * until function returns, at which point each property updated will dispatch once.
+   *
+   * If function throws, all properties updated are reverted and no events are dispatched.
+   * Where nested, only updates made by inner function are reverted, so outer may still recover.
+   * Function should be synchronous; updates after an `await` are not part of the transaction.
+   *
+   * @param state - State to pass to function, also used as `this`.
+   * @param fn - Function to run.
+   * @returns Output of function.
+   */
+  static transaction<T extends State, R>(
+    state: T,
+    fn: (this: T, state: T) => R
+  ): R {
+    if (TRANSACTION) {
+      const parent = SAVEPOINT;
+      const saved = (SAVEPOINT = new Map());
+
+      try {
+        const output = fn.call(state, state);
+
+        SAVEPOINT = parent;
+
+        // Outer savepoint, if any, must also revert what this one did.
+        if (parent)
+          for (const [state, keys] of saved) {
+            let into = parent.get(state);
+
+            if (!into) parent.set(state, (into = new Map()));
+
+            for (const [key, value] of keys)
+              if (!into.has(key)) into.set(key, value);
+          }
+
+        return output;
+      } catch (err) {
+        SAVEPOINT = parent;
+
+        for (const [state, keys] of saved) {
+          const store = STATE.get(state)!;
+          const held = TRANSACTION.get(state)!;
+
+          for (const [key, [value, existed, entry]] of keys) {
+            if (existed) store[key] = value;
+            else delete store[key];
+
+            if (entry) held.set(key, entry);
+            else held.delete(key);
+          }
+        }
+
+        throw err;
+      }
+    }
+
+    const held = (TRANSACTION = new Map());
+
+    try {
+      const output = fn.call(state, state);
+
+      TRANSACTION = undefined;
+
+      for (const [state, keys] of held) {
+        const store = STATE.get(state)!;
+
+        for (const [key, [previous, existed, emit]] of keys)
+          if (emit && (!existed || store[key] !== previous)) event(state, key);
+      }
+
+      return output;
+    } catch (err) {
+      TRANSACTION = undefined;
+
+      for (const [state, keys] of held) {
+        const store = STATE.get(state)!;
+
+        for (const [key, [previous, existed]] of keys)
+          if (existed) store[key] = previous;
+          else delete store[key];
+      }
+
+      throw err;
+    }
+  }
 }
 
 define(State.prototype, 'toString', {
@@ -412,26 +771,50 @@ define(State, 'toString', {
   }
 });
 
+class Status<T = unknown> extends State {
+  /** Whether most recent call has yet to settle. */
+  pending = false;
+
+  /** Error thrown by most recent call, if it failed. */
+  error: unknown = undefined;
+
+  /** Output of last call which succeeded. */
+  lastResult: T | undefined = undefined;
+}
+
 function assign(state: State, data: State.Assign<State>, silent?: boolean) {
   const methods = METHODS.get(state.constructor)!;
+  const store = STATE.get(state)!;
 
   for (const key in data) {
     const bind = methods.get(key);
+    const next = data[key];
 
-    if (bind) bind.call(state, data[key]);
+    if (bind) bind.call(state, next);
     else if (key in state && key !== 'is') {
+      const current = store[key];
       const desc = Object.getOwnPropertyDescriptor(state, key)!;
       const set = desc && (desc.set as (value: any, silent?: boolean) => void);
 
-      if (set) {
-        set.call(state, data[key], silent);
+      // Exported values are restored into existing children, rather than replacing them.
+      // Children not owned by this state (i.e. from context) are left alone.
+      if (current instanceof State && isValues(next)) {
+        if (PARENT.get(current) === state) assign(current, next, silent);
+      } else if (set) {
+        set.call(state, next, silent);
+      } else if (desc && isValues(desc.value) && 'current' in desc.value) {
+        desc.value.current = next;
       } else {
-        (state as any)[key] = data[key];
+        (state as any)[key] = next;
       }
     }
   }
 }
 
+function isValues(value: unknown): value is Record<string, any> {
+  return !!value && typeof value == 'object' && !(value instanceof State);
+}
+
 /** Apply instructions and inherited event listeners. Ensure class metadata is ready. */
 function prepare(state: State) {
   let T = state.constructor as State.Extends;
@@ -473,7 +856,22 @@ function prepare(state: State) {
         if (is.hasOwnProperty(key) && !original) return value as Function;
 
         const fn = original || value;
-        const bound = fn.bind(is);
+        const bound = (...args: unknown[]) => {
+          let output = fn.apply(is, args);
+
+          if (output instanceof Promise) {
+            const abort = signal(is);
+
+            // Writes made after state is destroyed will throw, so are discarded.
+            output = output.catch((error) => {
+              if (!abort.aborted) throw error;
+            });
+
+            call(is, fn, output);
+          }
+
+          return output;
+        };
 
         METHOD.set(bound, fn);
         define(is, key, { value: bound, writable: true });
@@ -518,6 +916,8 @@ function init(state: State, ...args: State.Args) {
 
       if (use instanceof Promise)
         use.catch((err) => {
+          if (report(err, state, undefined, 'init')) return;
+
           console.error(`Async error in constructor for ${state}:`);
           console.error(err);
         });
@@ -542,16 +942,26 @@ function init(state: State, ...args: State.Args) {
   });
 }
 
+/**
+ * Manage a plain property of state, so it is reactive.
+ *
+ * @param suspend - If property is missing from store, such as while loading, access will suspend until set.
+ */
 function manage(
   state: State,
   key: string | number,
   value: any,
-  silent?: boolean
+  silent?: boolean,
+  suspend?: boolean
 ) {
   const store = STATE.get(state)!;
 
   function get(this: State) {
-    return observing(this, key, store[key]);
+    return observing(
+      this,
+      key,
+      suspend ? access(state, key as string) : store[key]
+    );
   }
 
   function set(value: unknown, silent?: boolean) {
@@ -566,6 +976,100 @@ function manage(
   set(value, silent);
 }
 
+function signal(state: State) {
+  let controller = ABORT.get(state);
+
+  if (!controller) {
+    const created = (controller = new AbortController());
+
+    ABORT.set(state, controller);
+
+    if (Object.isFrozen(STATE.get(state))) controller.abort();
+    else
+      listener(
+        state,
+        () => {
+          created.abort();
+        },
+        null
+      );
+  }
+
+  return controller.signal;
+}
+
+function status(state: State, method: Function) {
+  let statuses = STATUS.get(state);
+
+  if (!statuses) {
+    const created = (statuses = new Map());
+
+    STATUS.set(state, created);
+    listener(
+      state,
+      () => {
+        created.forEach((status) => status.set(null));
+      },
+      null
+    );
+  }
+
+  let status = statuses.get(method);
+
+  if (!status) {
+    const calls = CALLS.get(state);
+    const latest = calls && calls.get(method);
+
+    statuses.set(method, (status = new Status()));
+    PARENT.set(status, state);
+    event(status);
+
+    if (latest) track(status, latest);
+  }
+
+  return status;
+}
+
+/** Record promise returned by a method. Status is only tracked if already requested. */
+function call(state: State, method: Function, promise: Promise<unknown>) {
+  const statuses = STATUS.get(state);
+  const status = statuses && statuses.get(method);
+
+  if (status) return track(status, promise);
+
+  let calls = CALLS.get(state);
+
+  if (!calls) CALLS.set(state, (calls = new Map()));
+
+  const pending = calls.set(method, promise);
+  const done = () => {
+    if (pending.get(method) === promise) pending.delete(method);
+  };
+
+  promise.then(done, done);
+}
+
+function track(status: Status, promise: Promise<unknown>) {
+  LATEST.set(status, promise);
+  status.pending = true;
+
+  promise.then(
+    (result) => {
+      if (LATEST.get(status) !== promise || status.get(null)) return;
+
+      status.pending = false;
+      status.error = undefined;
+      status.lastResult = result;
+    },
+    (error) => {
+      if (LATEST.get(status) !== promise || status.get(null)) return;
+
+      status.pending = false;
+      status.error = error;
+    }
+  );
+}
+
 function effect<T extends State>(state: T, fn: State.Effect<T>) {
   const effect: State.Effect<T> = METHOD.get(fn) || fn;
 
@@ -586,7 +1090,10 @@ function values<T extends State>(state: T): State.Values<T> {
   }
 
   for (let [key, value] of state) {
+    const collection = copy(value);
+
     if (EXPORT.has(value)) value = EXPORT.get(value);
+    else if (collection) value = collection;
     else if (
       value &&
       typeof value == 'object' &&
@@ -652,6 +1159,24 @@ function update<T>(
 
   const previous = store[key] as T;
 
+  if (INTERCEPTORS) {
+    let type = state.constructor as State.Extends;
+
+    while (type.name) {
+      for (const middleware of INTERCEPT.get(type) || []) {
+        const out = middleware.call(state, key, value, previous, state);
+
+        if (out === false) return false;
+
+        if (typeof out == 'function') value = out() as T;
+      }
+
+      if (type === State) break;
+
+      type = Object.getPrototypeOf(type);
+    }
+  }
+
   if (typeof arg == 'function') {
     const out = arg.call(state, value, previous);
 
@@ -660,7 +1185,34 @@ function update<T>(
     if (typeof out == 'function') value = out();
   }
 
-  if (value === previous && key in store) return;
+  if (
+    key in store &&
+    (value === previous || equals(state, key, value, previous))
+  )
+    return;
+
+  if (TRANSACTION) {
+    let held = TRANSACTION.get(state);
+
+    if (!held) TRANSACTION.set(state, (held = new Map()));
+
+    const entry = held.get(key);
+
+    if (SAVEPOINT) {
+      let saved = SAVEPOINT.get(state);
+
+      if (!saved) SAVEPOINT.set(state, (saved = new Map()));
+
+      if (!saved.has(key))
+        saved.set(key, [store[key], key in store, entry && [...entry]]);
+    }
+
+    if (!entry) held.set(key, [previous, key in store, arg !== true]);
+    else if (arg !== true) entry[2] = true;
+
+    store[key] = value;
+    return true;
+  }
 
   store[key] = value;
 
@@ -669,6 +1221,88 @@ function update<T>(
   return true;
 }
 
+function equals(
+  state: State,
+  key: string | number | symbol,
+  next: unknown,
+  previous: unknown
+) {
+  const fields = EQUALS.get(state);
+  const option =
+    fields && fields.has(key)
+      ? fields.get(key)
+      : (state.constructor as typeof State).equals;
+
+  if (option == 'shallow') return shallow(next, previous);
+  if (option == 'deep') return deep(next, previous);
+
+  return !!option && option(next, previous);
+}
+
+/**
+ * Iterate over updates to a state, as each batch completes.
+ * Yields keys updated in that batch. Iteration will end when state is destroyed.
+ *
+ * @param state - State to iterate updates of.
+ * @param keys - Properties or events to filter by. Only batches which include one of them are yielded, with matching keys only.
+ */
+function updates<T extends State, K extends State.Event<T> = State.Event<T>>(
+  state: T,
+  ...keys: K[]
+): AsyncIterableIterator<K[]> {
+  const queue: K[][] = [];
+  let done = state.get(null);
+  const waiting: ((result: IteratorResult<K[], undefined>) => void)[] = [];
+
+  const release = listener(
+    state.is,
+    (key) => {
+      if (key === null) {
+        finish();
+        return;
+      }
+
+      let batch = Array.from(pending<K>(state.is));
+
+      if (keys.length) batch = batch.filter((key) => keys.includes(key));
+
+      if (!batch.length) return;
+
+      const resolve = waiting.shift();
+
+      if (resolve) resolve({ value: batch, done: false });
+      else queue.push(batch);
+    },
+    new Set([false, null])
+  );
+
+  function finish() {
+    done = true;
+    release();
+
+    for (const resolve of waiting.splice(0))
+      resolve({ value: undefined, done: true });
+  }
+
+  return {
+    next() {
+      return new Promise((resolve) => {
+        if (queue.length) resolve({ value: queue.shift()!, done: false });
+        else if (done) resolve({ value: undefined, done: true });
+        else waiting.push(resolve);
+      });
+    },
+    return() {
+      queue.length = 0;
+      finish();
+      return Promise.resolve({ value: undefined, done: true });
+    },
+    [Symbol.asyncIterator]() {
+      return this;
+    }
+  };
+}
+
 /** Random alphanumberic of length 6; always starts with a letter. */
 function uid() {
   return (0.278 + Math.random() * 0.722)
@@ -677,4 +1311,20 @@ function uid() {
     .toUpperCase();
 }
 
-export { event, METHOD, State, PARENT, STATE, uid, access, update };
+export {
+  effect,
+  event,
+  EQUALS,
+  manage,
+  METHOD,
+  METHODS,
+  OBSERVABLE,
+  State,
+  Status,
+  PARENT,
+  STATE,
+  uid,
+  access,
+  update,
+  updates
+};
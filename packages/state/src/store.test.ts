@@ -0,0 +1,134 @@
+import { set } from './instruction/set';
+import { State } from './state';
+import { toStore } from './store';
+import { describe, expect, it, mockWarn, vi } from '../vitest';
+
+class Test extends State {
+  foo = 1;
+  bar = 2;
+}
+
+describe('state', () => {
+  it('will call subscriber immediately', () => {
+    const test = Test.new();
+    const run = vi.fn();
+
+    toStore(test).subscribe(run);
+
+    expect(run).toBeCalledTimes(1);
+    expect(run.mock.calls[0][0]).toBe(test);
+  });
+
+  it('will call subscriber on update', async () => {
+    const test = Test.new();
+    const run = vi.fn();
+
+    toStore(test).subscribe(run);
+
+    test.foo = 2;
+    test.bar = 3;
+
+    await expect(test).toHaveUpdated();
+
+    expect(run).toBeCalledTimes(2);
+  });
+
+  it('will stop on unsubscribe', async () => {
+    const test = Test.new();
+    const run = vi.fn();
+    const unsubscribe = toStore(test).subscribe(run);
+
+    unsubscribe();
+    test.foo = 2;
+
+    await expect(test).toHaveUpdated();
+
+    expect(run).toBeCalledTimes(1);
+  });
+
+  it('will not be writable', () => {
+    const test = Test.new();
+
+    expect(toStore(test)).not.toHaveProperty('set');
+  });
+});
+
+describe('key', () => {
+  it('will call subscriber with value', async () => {
+    const test = Test.new();
+    const run = vi.fn();
+
+    toStore(test, 'foo').subscribe(run);
+
+    expect(run).toBeCalledWith(1);
+
+    test.bar = 3;
+    await expect(test).toHaveUpdated();
+
+    expect(run).toBeCalledTimes(1);
+
+    test.foo = 2;
+    await expect(test).toHaveUpdated();
+
+    expect(run).toBeCalledTimes(2);
+    expect(run).toHaveBeenLastCalledWith(2);
+  });
+
+  it('will assign value on set', async () => {
+    const test = Test.new();
+    const store = toStore(test, 'foo');
+
+    store.set(2);
+
+    expect(test.foo).toBe(2);
+    await expect(test).toHaveUpdated('foo');
+  });
+
+  it('will be undefined until available', async () => {
+    class Test extends State {
+      foo = set<string>();
+    }
+
+    const test = Test.new();
+    const run = vi.fn();
+
+    toStore(test, 'foo').subscribe(run);
+
+    expect(run).toBeCalledWith(undefined);
+
+    test.foo = 'bar';
+    await expect(test).toHaveUpdated();
+
+    expect(run).toHaveBeenLastCalledWith('bar');
+  });
+
+  it('will compute value on subscribe', () => {
+    class Test extends State {
+      foo = 1;
+      double = set(this, ($) => $.foo * 2);
+    }
+
+    const test = Test.new();
+    const run = vi.fn();
+
+    toStore(test, 'double').subscribe(run);
+
+    expect(run).toBeCalledWith(2);
+  });
+
+  it('will throw error from value', () => {
+    const warn = mockWarn();
+    const error = new Error('Failed.');
+
+    class Test extends State {
+      foo = set((): string => {
+        throw error;
+      });
+    }
+
+    const test = Test.new();
+
+    expect(() => toStore(test, 'foo').subscribe(vi.fn())).toThrow(error);
+    expect(warn).toBeCalled();
+  });
+});
@@ -0,0 +1,80 @@
+import { listener, pending } from './observable';
+import { State } from './state';
+
+declare namespace toStore {
+  type Subscriber<T> = (value: T) => void;
+
+  /** Object implementing Svelte's readable store contract. */
+  interface Readable<T> {
+    subscribe(run: Subscriber<T>): () => void;
+  }
+
+  /** Object implementing Svelte's writable store contract. */
+  interface Writable<T> extends Readable<T> {
+    set(value: T): void;
+  }
+}
+
+/**
+ * Adapt a state to Svelte's store contract, for use with `$store` syntax.
+ * Subscribers are called with the state itself, immediately and whenever an update completes.
+ *
+ * @param state - State to adapt.
+ */
+function toStore<T extends State>(state: T): toStore.Readable<T>;
+
+/**
+ * Adapt a property of state to Svelte's writable store contract, for use with `$store` syntax.
+ * Subscribers are called with current value, immediately and whenever property updates.
+ * Value is `undefined` where not yet available.
+ *
+ * @param state - State to adapt.
+ * @param key - Property to read and assign.
+ */
+function toStore<T extends State, K extends State.Field<T>>(
+  state: T,
+  key: K
+): toStore.Writable<T[K]>;
+
+function toStore(state: State, key?: string) {
+  const { is } = state;
+
+  function current() {
+    if (key === undefined) return is;
+
+    try {
+      return (is as any)[key];
+    } catch (err) {
+      if (err instanceof Promise) return undefined;
+
+      throw err;
+    }
+  }
+
+  function subscribe(run: toStore.Subscriber<unknown>) {
+    const release = listener(
+      is,
+      () => {
+        if (key === undefined || pending(is).includes(key)) run(current());
+      },
+      false
+    );
+
+    run(current());
+
+    return () => {
+      release();
+    };
+  }
+
+  if (key === undefined) return { subscribe };
+
+  return {
+    subscribe,
+    set(value: unknown) {
+      (is as any)[key] = value;
+    }
+  };
+}
+
+export { toStore };